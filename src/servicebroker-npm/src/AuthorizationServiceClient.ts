@@ -13,6 +13,16 @@ export class AuthorizationServiceClient implements IDisposable {
 	 */
 	private isDisposed: boolean = false
 
+	/**
+	 * The credentials obtained from (or being obtained from) the authorization service, until they change.
+	 */
+	private credentials?: Promise<{ [key: string]: string }>
+
+	/**
+	 * The authorization checks we have responses for, or have requested responses for, keyed by operation moniker.
+	 */
+	private readonly authorizationChecks = new Map<string, AuthorizationCheck[]>()
+
 	/**
 	 * Initializes a new instance of the [AuthorizationServiceClient](#AuthorizationServiceClient) class
 	 * @param authService The authorization service to use with requests
@@ -25,6 +35,8 @@ export class AuthorizationServiceClient implements IDisposable {
 		assert(authService)
 
 		this.authService = authService
+		this.authService.on('credentialsChanged', this.onCredentialsChanged)
+		this.authService.on('authorizationChanged', this.onAuthorizationChanged)
 	}
 
 	/**
@@ -36,8 +48,20 @@ export class AuthorizationServiceClient implements IDisposable {
 			throw new Error('Object is disposed')
 		}
 
-		// TODO: add caching here.
-		return await this.authService.getCredentials(cancellationToken)
+		cancellationToken.throwIfCancelled()
+		if (!this.credentials) {
+			// The request is shared by all callers, so it is not canceled when any one of them loses interest.
+			const credentials = this.authService.getCredentials(CancellationToken.CONTINUE)
+			this.credentials = credentials
+			credentials.catch(() => {
+				// Let the next caller retry a request that failed.
+				if (this.credentials === credentials) {
+					this.credentials = undefined
+				}
+			})
+		}
+
+		return await cancellationToken.racePromise(this.credentials)
 	}
 
 	/**
@@ -51,17 +75,85 @@ export class AuthorizationServiceClient implements IDisposable {
 			throw new Error('Object is disposed')
 		}
 
-		// TODO: add caching here.
-		return await this.authService.checkAuthorization(operation, cancellationToken)
+		cancellationToken.throwIfCancelled()
+		let checks = this.authorizationChecks.get(operation.operationMoniker)
+		if (checks) {
+			for (const check of checks) {
+				// Something at least as demanding as our operation that is already approved approves ours as well.
+				if (check.approved === true && ProtectedOperation.isSupersetOf(check.operation, operation)) {
+					return true
+				}
+
+				// Something no more demanding than our operation that is already denied denies ours as well.
+				if (check.approved === false && ProtectedOperation.isSupersetOf(operation, check.operation)) {
+					return false
+				}
+			}
+
+			const pendingCheck = checks.find(check => check.approved === undefined && ProtectedOperation.equals(check.operation, operation))
+			if (pendingCheck) {
+				return await cancellationToken.racePromise(pendingCheck.result)
+			}
+		} else {
+			checks = []
+			this.authorizationChecks.set(operation.operationMoniker, checks)
+		}
+
+		const check: AuthorizationCheck = {
+			operation: ProtectedOperation.create(operation.operationMoniker, operation.requiredTrustLevel),
+			result: this.authService.checkAuthorization(operation, CancellationToken.CONTINUE),
+		}
+		checks.push(check)
+		check.result.then(
+			approved => (check.approved = approved),
+			() => {
+				// Let the next caller retry a check that failed.
+				const index = checks.indexOf(check)
+				if (index >= 0) {
+					checks.splice(index, 1)
+				}
+			}
+		)
+
+		return await cancellationToken.racePromise(check.result)
 	}
 
 	/**
 	 * Disposes the authorization client and its underlying resources
 	 */
 	public dispose(): void {
+		if (this.isDisposed) {
+			return
+		}
+
 		this.isDisposed = true
+		this.authService.off('credentialsChanged', this.onCredentialsChanged)
+		this.authService.off('authorizationChanged', this.onAuthorizationChanged)
 		if (this.ownsAuthService) {
 			this.authService.dispose()
 		}
 	}
+
+	private onCredentialsChanged = () => {
+		this.credentials = undefined
+	}
+
+	private onAuthorizationChanged = () => {
+		// Checks still in flight are dropped too, since their responses may predate the change.
+		this.authorizationChecks.clear()
+	}
+}
+
+/**
+ * An authorization check that was requested of the authorization service.
+ */
+interface AuthorizationCheck {
+	/** The operation that was checked. */
+	readonly operation: Readonly<ProtectedOperation>
+
+	/** The response from the authorization service. */
+	readonly result: Promise<boolean>
+
+	/** Whether the operation was approved, or `undefined` while the response is pending. */
+	approved?: boolean
 }
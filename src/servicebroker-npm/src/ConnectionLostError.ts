@@ -0,0 +1,19 @@
+import { RemoteRpcError } from './RemoteRpcError'
+
+/**
+ * Describes the failure of an RPC call because the connection to the remote party was lost before a response was received.
+ */
+export class ConnectionLostError extends RemoteRpcError {
+	/**
+	 * Initializes a new instance of the {@link ConnectionLostError} class.
+	 * @param message The error message.
+	 * @param innerError The error that describes how the connection was lost, if any.
+	 */
+	constructor(message?: string, innerError?: unknown) {
+		super(
+			message ?? 'The JSON-RPC connection with the remote party was lost before the request could complete.',
+			innerError === undefined ? undefined : { cause: innerError }
+		)
+		this.name = 'ConnectionLostError'
+	}
+}
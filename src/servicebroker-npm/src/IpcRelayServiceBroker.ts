@@ -12,6 +12,7 @@ import { randomUUID } from 'crypto'
 import { createServer, Server } from 'net'
 import { BrokeredServicesChangedArgs } from './BrokeredServicesChangedArgs'
 import { RpcEventServer } from './ServiceRpcDescriptor'
+import { rpcMethod } from './jsonRpc/RpcMethod'
 import path = require('path')
 import { chmodSync, mkdtempSync, rmSync } from 'fs'
 import { tmpdir } from 'os'
@@ -33,6 +34,7 @@ export class IpcRelayServiceBroker extends (EventEmitter as new () => ServiceBro
 		this.completion = new Promise<void>(resolve => (this.disposed = resolve))
 	}
 
+	@rpcMethod
 	handshake(clientMetadata: ServiceBrokerClientMetadata, cancellationToken?: CancellationToken): Promise<void> {
 		if (!RemoteServiceConnections.contains(clientMetadata.supportedConnections, RemoteServiceConnections.IpcPipe)) {
 			throw new Error('The client must support IpcPipe to use this service broker.')
@@ -40,6 +42,7 @@ export class IpcRelayServiceBroker extends (EventEmitter as new () => ServiceBro
 
 		return Promise.resolve()
 	}
+	@rpcMethod
 	async requestServiceChannel(
 		serviceMoniker: ServiceMoniker,
 		options?: ServiceActivationOptions,
@@ -87,6 +90,7 @@ export class IpcRelayServiceBroker extends (EventEmitter as new () => ServiceBro
 			pipeName,
 		}
 	}
+	@rpcMethod
 	cancelServiceRequest(serviceRequestId: string, cancellationToken?: CancellationToken): Promise<void> {
 		const server = this.channelsOfferedToClient[serviceRequestId]
 		if (server) {
@@ -14,6 +14,7 @@ import { FrameworkServices } from './FrameworkServices'
 import caught from 'caught'
 import { randomUUID } from 'crypto'
 import { RpcEventServer } from './ServiceRpcDescriptor'
+import { rpcMethod } from './jsonRpc/RpcMethod'
 
 export class MultiplexingRelayServiceBroker
 	extends (EventEmitter as new () => ServiceBrokerEmitter)
@@ -62,6 +63,7 @@ export class MultiplexingRelayServiceBroker
 		}
 	}
 
+	@rpcMethod
 	handshake(clientMetadata: ServiceBrokerClientMetadata, cancellationToken?: CancellationToken): Promise<void> {
 		if (!RemoteServiceConnections.contains(clientMetadata.supportedConnections, RemoteServiceConnections.Multiplexing)) {
 			throw new Error('The client must support multiplexing to use this service broker.')
@@ -70,6 +72,7 @@ export class MultiplexingRelayServiceBroker
 		return Promise.resolve()
 	}
 
+	@rpcMethod
 	async requestServiceChannel(
 		serviceMoniker: ServiceMoniker,
 		options?: ServiceActivationOptions | undefined,
@@ -95,6 +98,7 @@ export class MultiplexingRelayServiceBroker
 		}
 	}
 
+	@rpcMethod
 	async cancelServiceRequest(serviceRequestId: string, cancellationToken?: CancellationToken | undefined): Promise<void> {
 		const channel = this.channelsOfferedToClient[serviceRequestId]
 		if (channel) {
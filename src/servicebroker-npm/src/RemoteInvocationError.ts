@@ -0,0 +1,61 @@
+import { ResponseError } from 'vscode-jsonrpc'
+import { CommonErrorData } from './jsonRpc/CommonErrorData'
+import { JsonRpcErrorCode } from './jsonRpc/JsonRpcErrorCode'
+import { RemoteRpcError } from './RemoteRpcError'
+
+/**
+ * Describes an error response received from the remote party to an RPC call.
+ */
+export class RemoteInvocationError extends RemoteRpcError {
+	/**
+	 * Initializes a new instance of the {@link RemoteInvocationError} class.
+	 * @param message The error message.
+	 * @param errorCode The JSON-RPC error code from the error response. See {@link JsonRpcErrorCode} for well-known values.
+	 * @param errorData The `data` from the error response, if any.
+	 * @param options Options that set the {@link Error.cause} of this error, for derived errors that describe the remote error themselves.
+	 * By default, the cause is the remote error recreated from the error data.
+	 */
+	constructor(
+		message: string,
+		public readonly errorCode: JsonRpcErrorCode | number,
+		public readonly errorData?: unknown,
+		options?: ErrorOptions
+	) {
+		super(message, options ?? (CommonErrorData.is(errorData) ? { cause: CommonErrorData.toError(errorData) } : undefined))
+		this.name = 'RemoteInvocationError'
+	}
+
+	/**
+	 * Gets the error data, if it is in the shape that StreamJsonRpc uses to describe an error thrown by the remote method.
+	 * The {@link Error.cause} of this error is the remote error itself, recreated from this data.
+	 */
+	public get commonErrorData(): CommonErrorData | undefined {
+		return CommonErrorData.is(this.errorData) ? this.errorData : undefined
+	}
+
+	/**
+	 * Creates an error that describes an error response from the remote party.
+	 * @param error The error response.
+	 * @returns The error, which is a {@link RemoteMethodNotFoundError} if the remote party had no such method.
+	 */
+	public static fromResponseError(error: ResponseError<unknown>): RemoteInvocationError {
+		return error.code === JsonRpcErrorCode.methodNotFound
+			? new RemoteMethodNotFoundError(error.message, error.data)
+			: new RemoteInvocationError(error.message, error.code, error.data)
+	}
+}
+
+/**
+ * Describes an error response from the remote party that indicates the requested method does not exist or is not available.
+ */
+export class RemoteMethodNotFoundError extends RemoteInvocationError {
+	/**
+	 * Initializes a new instance of the {@link RemoteMethodNotFoundError} class.
+	 * @param message The error message.
+	 * @param errorData The `data` from the error response, if any.
+	 */
+	constructor(message: string, errorData?: unknown) {
+		super(message, JsonRpcErrorCode.methodNotFound, errorData)
+		this.name = 'RemoteMethodNotFoundError'
+	}
+}
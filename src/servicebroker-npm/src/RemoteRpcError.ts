@@ -0,0 +1,4 @@
+/**
+ * The base class for errors that describe the failure of an RPC call, either by the remote party or by the connection to it.
+ */
+export abstract class RemoteRpcError extends Error {}
@@ -229,7 +229,9 @@ export class RemoteServiceBroker extends (EventEmitter as new () => ServiceBroke
 			throw err
 		}
 
-		const rpc = serviceDescriptor.constructRpc<T>(options?.clientRpcTarget, pipe)
+		// A channel is opened on the multiplexing stream, which then carries any streams passed over RPC too.
+		const descriptor = isChannel(pipe) ? serviceDescriptor.withMultiplexingStream(this.multiplexingStream) : serviceDescriptor
+		const rpc = descriptor.constructRpc<T>(options?.clientRpcTarget, pipe)
 		return rpc
 	}
 
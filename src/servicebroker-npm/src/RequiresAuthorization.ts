@@ -0,0 +1,117 @@
+import CancellationToken from 'cancellationtoken'
+import { AuthorizationServiceClient } from './AuthorizationServiceClient'
+import { BrokeredServicesChangedArgs } from './BrokeredServicesChangedArgs'
+import { CancellationTokenAdapters } from './CancellationTokenAdapter'
+import { FrameworkServices } from './FrameworkServices'
+import { IAuthorizationService } from './IAuthorizationService'
+import { IServiceBroker } from './IServiceBroker'
+import { recordMethodWrapper } from './jsonRpc/RpcMethod'
+import { ProtectedOperation } from './ProtectedOperation'
+import { ServiceMoniker } from './ServiceMoniker'
+import { UnauthorizedAccessError } from './UnauthorizedAccessError'
+
+/**
+ * A brokered service whose methods may be guarded by {@link requiresAuthorization}.
+ */
+export interface AuthorizedService {
+	/**
+	 * The service broker given to the factory that created this service, which carries the credentials of its client.
+	 */
+	readonly serviceBroker: IServiceBroker
+}
+
+/**
+ * A decorator that requires the client of a service to be authorized to perform an operation before a method runs.
+ * Authorization is checked with the {@linkcode FrameworkServices.authorization} service obtained from the service's own {@linkcode AuthorizedService.serviceBroker}.
+ * Unauthorized calls are rejected with an {@linkcode UnauthorizedAccessError}, which RPC clients receive as a .NET `UnauthorizedAccessException`.
+ * Answers are cached per service broker until the authorization service reports that authorization changed.
+ * It may be combined with {@linkcode rpcMethod} in either order.
+ * @param operation The operation the client must be authorized to perform.
+ * @example
+ * class FileService implements AuthorizedService {
+ *   constructor(readonly serviceBroker: IServiceBroker) {}
+ *
+ *   @requiresAuthorization(WellKnownProtectedOperations.createClientIsOwner())
+ *   async delete(path: string, cancellationToken?: CancellationToken) {
+ *     // ...
+ *   }
+ * }
+ */
+export function requiresAuthorization(operation: ProtectedOperation) {
+	return function <This extends AuthorizedService, Args extends any[], Return>(
+		method: (this: This, ...args: Args) => Promise<Return>,
+		context: ClassMethodDecoratorContext<This, (this: This, ...args: Args) => Promise<Return>>
+	): (this: This, ...args: Args) => Promise<Return> {
+		const wrapper = async function (this: This, ...args: Args): Promise<Return> {
+			const lastArg = args[args.length - 1]
+			const cancellationToken = CancellationTokenAdapters.isCancellationToken(lastArg) ? lastArg : CancellationToken.CONTINUE
+			await authorizeOrThrow(this.serviceBroker, operation, cancellationToken)
+			return await method.apply(this, args)
+		}
+		recordMethodWrapper(method, wrapper)
+		return wrapper
+	}
+}
+
+/**
+ * The clients of the authorization services of service brokers, which cache the answers of those services.
+ */
+const authorizationClients = new WeakMap<IServiceBroker, Promise<AuthorizationServiceClient | null>>()
+
+/**
+ * Verifies that the client of a service broker is authorized to perform an operation, or throws.
+ * A client is not authorized when no authorization service is available.
+ * @param serviceBroker The service broker that carries the credentials of the client.
+ * @param operation The operation to check authorization for.
+ * @param cancellationToken A cancellation token.
+ */
+async function authorizeOrThrow(serviceBroker: IServiceBroker, operation: ProtectedOperation, cancellationToken: CancellationToken): Promise<void> {
+	const authorizationClient = await cancellationToken.racePromise(getAuthorizationClient(serviceBroker))
+	if (!(await authorizationClient?.checkAuthorization(operation, cancellationToken))) {
+		throw new UnauthorizedAccessError(operation)
+	}
+}
+
+/**
+ * Gets the client of the authorization service of a service broker, which is shared by every guarded call made with that broker.
+ * The client is replaced once the broker reports that its authorization service may have changed.
+ * @param serviceBroker The service broker that carries the credentials of the client.
+ */
+function getAuthorizationClient(serviceBroker: IServiceBroker): Promise<AuthorizationServiceClient | null> {
+	const cachedClient = authorizationClients.get(serviceBroker)
+	if (cachedClient) {
+		return cachedClient
+	}
+
+	// The request is shared by all callers, so it is not canceled when any one of them loses interest.
+	const authorizationClient = serviceBroker
+		.getProxy<IAuthorizationService>(FrameworkServices.authorization, undefined, CancellationToken.CONTINUE)
+		.then(authorizationService => (authorizationService ? new AuthorizationServiceClient(authorizationService) : null))
+	const evict = () => {
+		serviceBroker.off('availabilityChanged', onAvailabilityChanged)
+		if (authorizationClients.get(serviceBroker) === authorizationClient) {
+			authorizationClients.delete(serviceBroker)
+		}
+
+		authorizationClient.then(
+			client => client?.dispose(),
+			() => {}
+		)
+	}
+	const onAvailabilityChanged = (args: BrokeredServicesChangedArgs) => {
+		if (args.otherServicesImpacted || args.impactedServices?.some(moniker => ServiceMoniker.equals(moniker, FrameworkServices.authorization.moniker))) {
+			evict()
+		}
+	}
+
+	authorizationClients.set(serviceBroker, authorizationClient)
+	serviceBroker.on('availabilityChanged', onAvailabilityChanged)
+
+	// Do not cache a failure or a missing authorization service, so that a later call may find one.
+	authorizationClient.then(client => {
+		if (!client) {
+			evict()
+		}
+	}, evict)
+	return authorizationClient
+}
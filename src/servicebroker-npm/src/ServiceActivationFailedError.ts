@@ -0,0 +1,125 @@
+import { ResponseError } from 'vscode-jsonrpc'
+import { MissingBrokeredServiceErrorCode } from './container/MissingBrokeredServiceErrorCode'
+import { CommonErrorData } from './jsonRpc/CommonErrorData'
+import { JsonRpcErrorCode } from './jsonRpc/JsonRpcErrorCode'
+import { RemoteInvocationError } from './RemoteInvocationError'
+import { ServiceMoniker } from './ServiceMoniker'
+
+/**
+ * The `error.data` shape used to transmit a {@link ServiceActivationFailedError} over JSON-RPC.
+ * It is a superset of StreamJsonRpc's `CommonErrorData` so that .NET clients and servers can interpret it.
+ */
+interface ServiceActivationFailedErrorData extends CommonErrorData {
+	serviceMoniker?: ServiceMoniker
+	errorCode?: string
+}
+
+/**
+ * Used to indicate a failure in an {@link IServiceBroker} to activate a service that was found.
+ * It is transmitted over JSON-RPC as an error response, so it is a {@link RemoteInvocationError} whose {@link RemoteInvocationError.errorCode} is {@link JsonRpcErrorCode.invocationError}.
+ */
+export class ServiceActivationFailedError extends RemoteInvocationError {
+	/**
+	 * The name of the equivalent .NET exception type, as it appears in serialized errors.
+	 */
+	public static readonly typeName = 'Microsoft.ServiceHub.Framework.ServiceActivationFailedException'
+
+	/**
+	 * Initializes a new instance of the {@link ServiceActivationFailedError} class.
+	 * @param serviceMoniker The moniker of the service that failed to activate.
+	 * @param missingServiceErrorCode The reason the service could not be activated.
+	 * @param innerError The error thrown from the service during activation.
+	 * @param message An optional message to use instead of the default one.
+	 * @param errorData The `data` from the error response, when this error was received over JSON-RPC.
+	 */
+	constructor(
+		public readonly serviceMoniker: ServiceMoniker,
+		public readonly missingServiceErrorCode: MissingBrokeredServiceErrorCode,
+		public readonly innerError?: unknown,
+		message?: string,
+		errorData?: ServiceActivationFailedErrorData
+	) {
+		super(
+			message ?? `Activating the "${ServiceMoniker.toString(serviceMoniker)}" service failed.`,
+			JsonRpcErrorCode.invocationError,
+			errorData,
+			innerError === undefined ? {} : { cause: innerError }
+		)
+		this.name = 'ServiceActivationFailedError'
+	}
+
+	/**
+	 * Creates a JSON-RPC error response that describes this error in a .NET-compatible shape.
+	 */
+	public toResponseError(): ResponseError<ServiceActivationFailedErrorData> {
+		const data: ServiceActivationFailedErrorData = {
+			...CommonErrorData.create(this, ServiceActivationFailedError.typeName),
+			serviceMoniker: { name: this.serviceMoniker.name, version: this.serviceMoniker.version },
+			errorCode: formatErrorCode(this.missingServiceErrorCode),
+		}
+		return new ResponseError(JsonRpcErrorCode.invocationError, this.message, data)
+	}
+
+	/**
+	 * Recreates a {@link ServiceActivationFailedError} from a JSON-RPC error response, if it describes one.
+	 * @param error The error received from the remote party.
+	 * @returns The rehydrated error, or `undefined` if the error does not describe a service activation failure.
+	 */
+	public static tryFromResponseError(error: unknown): ServiceActivationFailedError | undefined {
+		if (!(error instanceof ResponseError) || !CommonErrorData.is(error.data) || error.data.type !== ServiceActivationFailedError.typeName) {
+			return undefined
+		}
+
+		const data = error.data as ServiceActivationFailedErrorData
+		const serviceMoniker = data.serviceMoniker?.name
+			? ServiceMoniker.create(data.serviceMoniker.name, data.serviceMoniker.version ?? undefined)
+			: parseMoniker(data.message)
+		const result = new ServiceActivationFailedError(
+			serviceMoniker,
+			parseErrorCode(data.errorCode),
+			data.inner ? CommonErrorData.toError(data.inner) : undefined,
+			data.message ?? error.message,
+			data
+		)
+		if (data.stack) {
+			result.stack = data.stack
+		}
+
+		return result
+	}
+}
+
+/**
+ * Recovers the service moniker from the message .NET assigns to its ServiceActivationFailedException.
+ */
+function parseMoniker(message?: string): ServiceMoniker {
+	const match = message?.match(/"([^"]*)"/)
+	const monikerString = match ? match[1] : ''
+	const versionStart = monikerString.lastIndexOf(' (')
+	return versionStart >= 0 && monikerString.endsWith(')')
+		? ServiceMoniker.create(monikerString.substring(0, versionStart), monikerString.substring(versionStart + 2, monikerString.length - 1))
+		: ServiceMoniker.create(monikerString)
+}
+
+/**
+ * Formats an error code using the .NET spelling of its name.
+ */
+function formatErrorCode(errorCode: MissingBrokeredServiceErrorCode): string {
+	const name = MissingBrokeredServiceErrorCode[errorCode]
+	return name.charAt(0).toUpperCase() + name.substring(1)
+}
+
+/**
+ * Parses an error code by its (case-insensitive) name, so that both the TypeScript and .NET spellings are accepted.
+ */
+function parseErrorCode(errorCode?: string): MissingBrokeredServiceErrorCode {
+	if (errorCode) {
+		for (const key of Object.keys(MissingBrokeredServiceErrorCode)) {
+			if (key.toLowerCase() === errorCode.toLowerCase()) {
+				return MissingBrokeredServiceErrorCode[key as keyof typeof MissingBrokeredServiceErrorCode]
+			}
+		}
+	}
+
+	return MissingBrokeredServiceErrorCode.serviceFactoryFault
+}
@@ -0,0 +1,310 @@
+import assert from 'assert'
+import CancellationToken from 'cancellationtoken'
+import { EventEmitter } from 'events'
+import { BrokeredServicesChangedArgs } from './BrokeredServicesChangedArgs'
+import { IDisposable } from './IDisposable'
+import { IServiceBroker, ServiceBrokerEmitter } from './IServiceBroker'
+import { ServiceActivationOptions } from './ServiceActivationOptions'
+import { ServiceMoniker } from './ServiceMoniker'
+import { ServiceRpcDescriptor } from './ServiceRpcDescriptor'
+
+/**
+ * Aggregates one or more {@link IServiceBroker} instances into one, with various policies applied.
+ */
+export class ServiceBrokerAggregator {
+	/**
+	 * Creates a new {@link IServiceBroker}.
+	 * Service requests are forwarded to a list of other {@link IServiceBroker} instances one-at-a-time.
+	 * The first broker to return a successful response is returned to the caller.
+	 * @param serviceBrokers A list of service brokers aggregated into the new one. This array is stored; not copied. The array should *not* be modified while the returned broker is in use.
+	 * @returns The aggregate service broker. Dispose of it to stop forwarding `availabilityChanged` events from the aggregated brokers.
+	 */
+	public static sequential(serviceBrokers: readonly IServiceBroker[]): IServiceBroker & IDisposable {
+		assert(serviceBrokers)
+		return new SequentialBroker(serviceBrokers)
+	}
+
+	/**
+	 * Creates a new {@link IServiceBroker}.
+	 * Service requests are forwarded to a list of other {@link IServiceBroker} instances in parallel.
+	 * At most one broker is allowed to respond with a service or all results are disposed and an error is thrown.
+	 * If any broker fails, the services returned by the others are disposed and its error is rethrown.
+	 * @param serviceBrokers A list of service brokers aggregated into the new one. This array is stored; not copied. The array should *not* be modified while the returned broker is in use.
+	 * @returns The aggregate service broker. Dispose of it to stop forwarding `availabilityChanged` events from the aggregated brokers.
+	 */
+	public static parallel(serviceBrokers: readonly IServiceBroker[]): IServiceBroker & IDisposable {
+		assert(serviceBrokers)
+		return new ParallelAtMostOneBroker(serviceBrokers)
+	}
+
+	/**
+	 * Creates a new {@link IServiceBroker} that forces all RPC calls to be marshaled even if a service is available locally.
+	 * @param serviceBroker The inner service broker.
+	 * @returns The marshaling service broker.
+	 */
+	public static forceMarshal(serviceBroker: IServiceBroker): IServiceBroker {
+		assert(serviceBroker)
+		return new ForceMarshalingBroker(serviceBroker)
+	}
+
+	/**
+	 * Creates a new {@link IServiceBroker} that does not implement {@link IDisposable}
+	 * and forwards all requests to a given {@link IServiceBroker}.
+	 * @param serviceBroker The inner service broker to forward requests to.
+	 * @returns The non-disposable wrapper.
+	 * @remarks
+	 * This is useful when an {@link IServiceBroker} that may implement {@link IDisposable} is being shared
+	 * such that others *may* dispose of it if it is disposable, but the caller wants to retain exclusive control
+	 * over the lifetime of the broker.
+	 */
+	public static nonDisposable(serviceBroker: IServiceBroker): IServiceBroker {
+		assert(serviceBroker)
+		return new DelegatingServiceBroker(serviceBroker)
+	}
+
+	/**
+	 * Creates an {@link IServiceBroker} that will lazily create the inner broker when it is first needed.
+	 * @param lazyServiceBroker The factory for the inner {@link IServiceBroker}. It is invoked at most once.
+	 * @returns The delegating service broker. Dispose of it to stop forwarding `availabilityChanged` events from the inner broker.
+	 */
+	public static lazy(lazyServiceBroker: () => Promise<IServiceBroker> | IServiceBroker): IServiceBroker & IDisposable {
+		assert(lazyServiceBroker)
+		return new LazyServiceBroker(lazyServiceBroker)
+	}
+}
+
+/**
+ * A broker which will query many other brokers sequentially, and return the first successful result.
+ */
+class SequentialBroker extends (EventEmitter as new () => ServiceBrokerEmitter) implements IServiceBroker, IDisposable {
+	constructor(private readonly serviceBrokers: readonly IServiceBroker[]) {
+		super()
+		for (const broker of this.serviceBrokers) {
+			broker.on('availabilityChanged', this.onAvailabilityChanged)
+		}
+	}
+
+	async getProxy<T extends object>(
+		serviceDescriptor: ServiceRpcDescriptor,
+		options?: ServiceActivationOptions,
+		cancellationToken?: CancellationToken
+	): Promise<(T & IDisposable) | null> {
+		assert(serviceDescriptor)
+		for (const broker of this.serviceBrokers) {
+			const proxy = await broker.getProxy<T>(serviceDescriptor, options, cancellationToken)
+			if (proxy) {
+				return proxy
+			}
+		}
+
+		return null
+	}
+
+	async getPipe(
+		serviceMoniker: ServiceMoniker,
+		options?: ServiceActivationOptions,
+		cancellationToken?: CancellationToken
+	): Promise<NodeJS.ReadWriteStream | null> {
+		assert(serviceMoniker)
+		for (const broker of this.serviceBrokers) {
+			const pipe = await broker.getPipe(serviceMoniker, options, cancellationToken)
+			if (pipe) {
+				return pipe
+			}
+		}
+
+		return null
+	}
+
+	dispose(): void {
+		for (const broker of this.serviceBrokers) {
+			broker.off('availabilityChanged', this.onAvailabilityChanged)
+		}
+	}
+
+	private readonly onAvailabilityChanged = (args: BrokeredServicesChangedArgs) => {
+		this.emit('availabilityChanged', args)
+	}
+}
+
+/**
+ * A broker which will query many other brokers in parallel, but assert that at most one service comes back.
+ */
+class ParallelAtMostOneBroker extends (EventEmitter as new () => ServiceBrokerEmitter) implements IServiceBroker, IDisposable {
+	constructor(private readonly serviceBrokers: readonly IServiceBroker[]) {
+		super()
+		for (const broker of this.serviceBrokers) {
+			broker.on('availabilityChanged', this.onAvailabilityChanged)
+		}
+	}
+
+	async getProxy<T extends object>(
+		serviceDescriptor: ServiceRpcDescriptor,
+		options?: ServiceActivationOptions,
+		cancellationToken?: CancellationToken
+	): Promise<(T & IDisposable) | null> {
+		assert(serviceDescriptor)
+		const queryResult = await Promise.allSettled(this.serviceBrokers.map(broker => broker.getProxy<T>(serviceDescriptor, options, cancellationToken)))
+		return ParallelAtMostOneBroker.findZeroOrOneMatch(serviceDescriptor.moniker, queryResult, proxy => proxy.dispose())
+	}
+
+	async getPipe(
+		serviceMoniker: ServiceMoniker,
+		options?: ServiceActivationOptions,
+		cancellationToken?: CancellationToken
+	): Promise<NodeJS.ReadWriteStream | null> {
+		assert(serviceMoniker)
+		const queryResult = await Promise.allSettled(this.serviceBrokers.map(broker => broker.getPipe(serviceMoniker, options, cancellationToken)))
+		return ParallelAtMostOneBroker.findZeroOrOneMatch(serviceMoniker, queryResult, pipe => pipe.end())
+	}
+
+	dispose(): void {
+		for (const broker of this.serviceBrokers) {
+			broker.off('availabilityChanged', this.onAvailabilityChanged)
+		}
+	}
+
+	private static findZeroOrOneMatch<T>(serviceMoniker: ServiceMoniker, queryResult: PromiseSettledResult<T | null>[], release: (value: T) => void): T | null {
+		const matches = queryResult.filter((r): r is PromiseFulfilledResult<T> => r.status === 'fulfilled' && !!r.value).map(r => r.value)
+		const failure = queryResult.find((r): r is PromiseRejectedResult => r.status === 'rejected')
+		if (failure) {
+			// Release whatever the other brokers returned so as to avoid a leak, then report the failure.
+			matches.forEach(release)
+			throw failure.reason
+		}
+
+		switch (matches.length) {
+			case 0:
+				return null
+			case 1:
+				return matches[0]
+			default:
+				// We found too many. First we need to release them all so as to avoid a leak.
+				matches.forEach(release)
+
+				// Now communicate the composition failure to the caller.
+				throw new Error(`More than one service broker offered the ${ServiceMoniker.toString(serviceMoniker)} service.`)
+		}
+	}
+
+	private readonly onAvailabilityChanged = (args: BrokeredServicesChangedArgs) => {
+		this.emit('availabilityChanged', args)
+	}
+}
+
+/**
+ * A broker which lazily creates the inner broker when it is first needed.
+ */
+class LazyServiceBroker extends (EventEmitter as new () => ServiceBrokerEmitter) implements IServiceBroker, IDisposable {
+	private inner?: Promise<IServiceBroker>
+	private isDisposed = false
+
+	constructor(private readonly lazyServiceBroker: () => Promise<IServiceBroker> | IServiceBroker) {
+		super()
+	}
+
+	async getProxy<T extends object>(
+		serviceDescriptor: ServiceRpcDescriptor,
+		options?: ServiceActivationOptions,
+		cancellationToken?: CancellationToken
+	): Promise<(T & IDisposable) | null> {
+		const serviceBroker = await this.getInner()
+		return await serviceBroker.getProxy<T>(serviceDescriptor, options, cancellationToken)
+	}
+
+	async getPipe(
+		serviceMoniker: ServiceMoniker,
+		options?: ServiceActivationOptions,
+		cancellationToken?: CancellationToken
+	): Promise<NodeJS.ReadWriteStream | null> {
+		const serviceBroker = await this.getInner()
+		return await serviceBroker.getPipe(serviceMoniker, options, cancellationToken)
+	}
+
+	dispose(): void {
+		this.isDisposed = true
+
+		// It is imperative that we unsubscribe our event handler to avoid a memory leak.
+		// This also reverses a pending creation once it has completed.
+		this.inner?.then(serviceBroker => serviceBroker.off('availabilityChanged', this.onAvailabilityChanged)).catch(() => {})
+	}
+
+	private getInner(): Promise<IServiceBroker> {
+		if (this.isDisposed) {
+			throw new Error('Object is disposed')
+		}
+
+		this.inner ??= (async () => {
+			const serviceBroker = await this.lazyServiceBroker()
+			serviceBroker.on('availabilityChanged', this.onAvailabilityChanged)
+			return serviceBroker
+		})()
+		return this.inner
+	}
+
+	private readonly onAvailabilityChanged = (args: BrokeredServicesChangedArgs) => {
+		this.emit('availabilityChanged', args)
+	}
+}
+
+/**
+ * A broker that forwards all requests to an inner broker.
+ * It only subscribes to the inner broker's `availabilityChanged` event while it has listeners of its own.
+ */
+class DelegatingServiceBroker extends (EventEmitter as new () => ServiceBrokerEmitter) implements IServiceBroker {
+	constructor(protected readonly inner: IServiceBroker) {
+		super()
+		const emitter = this as EventEmitter
+		emitter.on('newListener', (eventName: string | symbol) => {
+			if (eventName === 'availabilityChanged' && this.listenerCount('availabilityChanged') === 0) {
+				this.inner.on('availabilityChanged', this.onInnerAvailabilityChanged)
+			}
+		})
+		emitter.on('removeListener', (eventName: string | symbol) => {
+			if (eventName === 'availabilityChanged' && this.listenerCount('availabilityChanged') === 0) {
+				this.inner.off('availabilityChanged', this.onInnerAvailabilityChanged)
+			}
+		})
+	}
+
+	getProxy<T extends object>(
+		serviceDescriptor: ServiceRpcDescriptor,
+		options?: ServiceActivationOptions,
+		cancellationToken?: CancellationToken
+	): Promise<(T & IDisposable) | null> {
+		return this.inner.getProxy<T>(serviceDescriptor, options, cancellationToken)
+	}
+
+	getPipe(serviceMoniker: ServiceMoniker, options?: ServiceActivationOptions, cancellationToken?: CancellationToken): Promise<NodeJS.ReadWriteStream | null> {
+		return this.inner.getPipe(serviceMoniker, options, cancellationToken)
+	}
+
+	private readonly onInnerAvailabilityChanged = (args: BrokeredServicesChangedArgs) => {
+		// We explicitly forward all events so that our subscribers see the event come from us instead of the inner broker.
+		this.emit('availabilityChanged', args)
+	}
+}
+
+/**
+ * Wraps an {@link IServiceBroker} such that any locally provisioned service is forced to marshal all calls anyway.
+ */
+class ForceMarshalingBroker extends DelegatingServiceBroker {
+	async getProxy<T extends object>(
+		serviceDescriptor: ServiceRpcDescriptor,
+		options?: ServiceActivationOptions,
+		cancellationToken?: CancellationToken
+	): Promise<(T & IDisposable) | null> {
+		assert(serviceDescriptor)
+		const pipe = await this.inner.getPipe(serviceDescriptor.moniker, options, cancellationToken)
+		if (!pipe) {
+			return null
+		}
+
+		try {
+			return serviceDescriptor.constructRpc<T>(options?.clientRpcTarget, pipe)
+		} catch (err) {
+			pipe.end()
+			throw err
+		}
+	}
+}
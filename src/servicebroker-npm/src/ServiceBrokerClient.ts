@@ -0,0 +1,234 @@
+import assert from 'assert'
+import CancellationToken from 'cancellationtoken'
+import { EventEmitter } from 'events'
+import StrictEventEmitter from 'strict-event-emitter-types'
+import { BrokeredServicesChangedArgs } from './BrokeredServicesChangedArgs'
+import { IDisposable } from './IDisposable'
+import { IServiceBroker } from './IServiceBroker'
+import { ServiceActivationOptions } from './ServiceActivationOptions'
+import { ServiceMoniker } from './ServiceMoniker'
+import { ServiceRpcDescriptor } from './ServiceRpcDescriptor'
+
+/**
+ * Describes the events that can be fired from {@linkcode ServiceBrokerClient}
+ */
+export interface ServiceBrokerClientEvents {
+	/**
+	 * Occurs when previously acquired proxies have gone stale.
+	 * Handlers should release any outstanding rentals at their earliest convenience and use {@linkcode ServiceBrokerClient.getProxy} to get new proxies.
+	 */
+	invalidated: (args: BrokeredServicesChangedArgs) => void
+}
+
+/**
+ * The {@linkcode StrictEventEmitter} extended by {@linkcode ServiceBrokerClient}
+ */
+export type ServiceBrokerClientEmitter = StrictEventEmitter<EventEmitter, ServiceBrokerClientEvents>
+
+/**
+ * A rented client proxy obtained from {@linkcode ServiceBrokerClient.getProxy}.
+ * Dispose of the rental (not the proxy itself) as soon as the caller is done using it.
+ */
+export interface ServiceBrokerClientRental<T extends object> extends IDisposable {
+	/**
+	 * The client proxy, or `null` if no matching service could be found.
+	 * This proxy may be shared with other rentals and should *not* be disposed of directly.
+	 */
+	readonly proxy: (T & IDisposable) | null
+}
+
+/**
+ * A wrapper around {@linkcode IServiceBroker} that caches and shares client proxies.
+ */
+export class ServiceBrokerClient extends (EventEmitter as new () => ServiceBrokerClientEmitter) implements IDisposable {
+	/**
+	 * A cache of current (non-stale) proxies.
+	 */
+	private readonly clientCache = new Map<ServiceRpcDescriptor, CachedProxy>()
+
+	/**
+	 * Indicates whether the availabilityChanged handler has been added to the inner service broker.
+	 */
+	private availabilityChangedHookedUp = false
+
+	/**
+	 * Indicates if the client has already been disposed
+	 */
+	private isDisposed = false
+
+	/**
+	 * Initializes a new instance of the {@linkcode ServiceBrokerClient} class
+	 * @param serviceBroker The underlying service broker.
+	 * @param ownsServiceBroker Indicates if the client owns the service broker, and should dispose of it (if it is disposable) when this client is disposed.
+	 */
+	public constructor(
+		private readonly serviceBroker: IServiceBroker,
+		private readonly ownsServiceBroker: boolean = true
+	) {
+		super()
+		assert(serviceBroker)
+	}
+
+	/**
+	 * Requests access to some service through a client proxy.
+	 * The same client proxy is returned for a given service descriptor until it is invalidated.
+	 * @param serviceDescriptor The descriptor of the service.
+	 * @param options Activation options for that service. Only used if the service has not already been cached.
+	 * @param cancellationToken A cancellation token.
+	 * @returns A rental around the client proxy. Proxies are kept alive while rented, and may be kept alive beyond a rental until they are invalidated.
+	 */
+	public async getProxy<T extends object>(
+		serviceDescriptor: ServiceRpcDescriptor,
+		options?: ServiceActivationOptions,
+		cancellationToken: CancellationToken = CancellationToken.CONTINUE
+	): Promise<ServiceBrokerClientRental<T>> {
+		assert(serviceDescriptor)
+		this.throwIfDisposed()
+		cancellationToken.throwIfCancelled()
+
+		if (!this.availabilityChangedHookedUp) {
+			this.serviceBroker.on('availabilityChanged', this.onAvailabilityChanged)
+			this.availabilityChangedHookedUp = true
+		}
+
+		let cachedProxy = this.clientCache.get(serviceDescriptor)
+		if (!cachedProxy) {
+			const newProxy = new CachedProxy(serviceDescriptor.moniker, this.serviceBroker.getProxy(serviceDescriptor, options))
+			this.clientCache.set(serviceDescriptor, newProxy)
+
+			// Do not cache a failure, so that a later rental may retry. Only evict the entry if it has not already been replaced.
+			newProxy.value.catch(() => {
+				if (this.clientCache.get(serviceDescriptor) === newProxy) {
+					this.clientCache.delete(serviceDescriptor)
+				}
+			})
+			cachedProxy = newProxy
+		}
+
+		cachedProxy.rentals++
+		try {
+			const proxy = (await cancellationToken.racePromise(cachedProxy.value)) as (T & IDisposable) | null
+			return new Rental<T>(cachedProxy, proxy)
+		} catch (err) {
+			cachedProxy.release()
+			throw err
+		}
+	}
+
+	/**
+	 * Invalidates all previously produced client proxies and disposes this object.
+	 * Any client proxies currently rented will be disposed of when they are all returned.
+	 */
+	public dispose(): void {
+		if (this.isDisposed) {
+			return
+		}
+
+		this.isDisposed = true
+		this.invalidateProxies({ otherServicesImpacted: true })
+		this.serviceBroker.off('availabilityChanged', this.onAvailabilityChanged)
+		if (this.ownsServiceBroker && IDisposable.is(this.serviceBroker)) {
+			this.serviceBroker.dispose()
+		}
+	}
+
+	private throwIfDisposed() {
+		if (this.isDisposed) {
+			throw new Error('Object is disposed')
+		}
+	}
+
+	/**
+	 * Removes impacted proxies from the cache, disposing of those that are not currently rented.
+	 * @param args The description of which services changed.
+	 */
+	private invalidateProxies(args: BrokeredServicesChangedArgs) {
+		for (const [descriptor, cachedProxy] of this.clientCache) {
+			if (args.otherServicesImpacted || args.impactedServices?.some(moniker => ServiceMoniker.equals(moniker, cachedProxy.moniker))) {
+				this.clientCache.delete(descriptor)
+				cachedProxy.markStale()
+			}
+		}
+	}
+
+	private readonly onAvailabilityChanged = (args: BrokeredServicesChangedArgs) => {
+		if (this.isDisposed) {
+			return
+		}
+
+		try {
+			this.invalidateProxies(args)
+		} finally {
+			this.emit('invalidated', args)
+		}
+	}
+}
+
+/**
+ * A proxy shared by all rentals of a given service descriptor.
+ */
+class CachedProxy {
+	/**
+	 * The number of outstanding rentals of this proxy.
+	 */
+	public rentals = 0
+
+	/**
+	 * Indicates whether this proxy has been evicted from the cache and should be disposed of once it is no longer rented.
+	 */
+	private isStale = false
+
+	constructor(
+		public readonly moniker: ServiceMoniker,
+		public readonly value: Promise<(object & IDisposable) | null>
+	) {
+		// Avoid unhandled rejections when no one is awaiting the value.
+		value.catch(() => {})
+	}
+
+	/**
+	 * Marks the proxy as stale, disposing of it now if it is not currently rented.
+	 */
+	public markStale() {
+		this.isStale = true
+		if (this.rentals === 0) {
+			this.disposeProxy()
+		}
+	}
+
+	/**
+	 * Releases a rental, disposing of the proxy if it is stale and this was the last rental.
+	 */
+	public release() {
+		this.rentals--
+		if (this.rentals === 0 && this.isStale) {
+			this.disposeProxy()
+		}
+	}
+
+	private disposeProxy() {
+		this.value.then(
+			proxy => proxy?.dispose(),
+			() => {}
+		)
+	}
+}
+
+/**
+ * A rental of a {@linkcode CachedProxy}.
+ */
+class Rental<T extends object> implements ServiceBrokerClientRental<T> {
+	private isDisposed = false
+
+	constructor(
+		private readonly cachedProxy: CachedProxy,
+		public readonly proxy: (T & IDisposable) | null
+	) {}
+
+	dispose(): void {
+		if (!this.isDisposed) {
+			this.isDisposed = true
+			this.cachedProxy.release()
+		}
+	}
+}
@@ -10,7 +10,10 @@ import * as msgpack from 'msgpack-lite'
 import { MultiplexingStream, MultiplexingStreamOptions } from 'nerdbank-streams'
 import { EventEmitter } from 'stream'
 import { NodeStreamMessageReader, NodeStreamMessageWriter } from './NodeStreamMessageWrappers'
-import { invokeRpc, registerInstanceMethodsAsRpcTargets } from './jsonRpc/rpcUtilities'
+import { MethodNameTransform } from './jsonRpc/CommonMethodNameTransforms'
+import { rpcMethod } from './jsonRpc/RpcMethod'
+import { invokeRpc, JsonRpcParameterStructure, notifyRpc, registerInstanceMethodsAsRpcTargets } from './jsonRpc/rpcUtilities'
+import { setMultiplexingStream } from './jsonRpc/RpcStream'
 
 /**
  * A callback invoked for each outgoing JSON-RPC message, before it is encoded and sent.
@@ -58,8 +61,83 @@ export interface ServiceJsonRpcDescriptorOptions {
 	 * May inspect top-level fields on the message such as `traceparent` for distributed tracing.
 	 */
 	incomingMessageFilter?: IncomingMessageFilter
+
+	/**
+	 * How arguments are structured in requests sent from proxies, and accepted by local RPC targets.
+	 * When `byName`, each proxy method takes a single object whose properties are named after the parameters of the remote method,
+	 * optionally followed by a cancellation token, and local RPC targets accept requests whose parameters are such an object.
+	 * The default is `byPosition`.
+	 */
+	parameterStructure?: JsonRpcParameterStructure
+
+	/**
+	 * Transforms the names of methods as they are known locally into the names they are known by over RPC.
+	 * It applies to requests sent from proxies and to the methods of local RPC targets.
+	 * For example, {@link CommonMethodNameTransforms.pascalCase} lets camelCase TypeScript interfaces invoke and serve PascalCase .NET methods.
+	 */
+	methodNameTransform?: MethodNameTransform
+
+	/**
+	 * Transforms the names of events as they are known locally into the names they are known by over RPC.
+	 * It applies to events raised by local RPC targets and to the events that proxies' listeners are added for.
+	 * The default is {@link methodNameTransform}, which should be overridden when it adds an `Async` suffix.
+	 */
+	eventNameTransform?: MethodNameTransform
+
+	/**
+	 * The names of the methods of local RPC targets that may be invoked remotely, in addition to those marked with the {@link rpcMethod} decorator.
+	 * Once any method of a target is exposed explicitly, its other methods are not remotely callable.
+	 */
+	exposedMethodNames?: readonly string[]
+
+	/**
+	 * A value indicating whether local RPC targets only expose methods that are listed in {@link exposedMethodNames} or marked with the {@link rpcMethod} decorator,
+	 * even when they expose none. Requests for any other method are answered with a method not found error.
+	 * Otherwise, a target that exposes no methods explicitly exposes all its methods except `dispose`.
+	 * This is recommended for services that may be offered to less trusted clients, such as Live Share guests.
+	 */
+	strictMethodExposure?: boolean
+
+	/**
+	 * The names of methods that proxies invoke with JSON-RPC notifications instead of requests.
+	 * The remote party does not respond to notifications, so these methods return a promise that resolves once the notification has been transmitted,
+	 * and their failures are not observed by the caller.
+	 * This suits high-frequency calls, such as those that report telemetry, whose round-trips would otherwise dominate.
+	 */
+	notificationMethodNames?: readonly string[]
+
+	/**
+	 * A value indicating whether services proffered in the same process are given to clients through a local proxy,
+	 * which makes every call asynchronous and copies arguments and results with this descriptor's formatter, as if the service were remote.
+	 * It helps ensure that consumers keep working when the service moves to another process.
+	 * The default is `false`, which gives clients the service objects themselves.
+	 */
+	useLocalProxy?: boolean
 }
 
+/**
+ * The options of a {@link JsonRpcConnection}.
+ */
+export type JsonRpcConnectionOptions = Pick<
+	ServiceJsonRpcDescriptorOptions,
+	'parameterStructure' | 'methodNameTransform' | 'eventNameTransform' | 'exposedMethodNames' | 'strictMethodExposure' | 'notificationMethodNames'
+>
+
+/**
+ * The names of the properties that distinguish a {@link ServiceJsonRpcDescriptorOptions} from a {@link MultiplexingStreamOptions}.
+ */
+const descriptorOptionNames: readonly (keyof ServiceJsonRpcDescriptorOptions)[] = [
+	'outgoingMessageFilter',
+	'incomingMessageFilter',
+	'parameterStructure',
+	'methodNameTransform',
+	'eventNameTransform',
+	'exposedMethodNames',
+	'strictMethodExposure',
+	'notificationMethodNames',
+	'useLocalProxy',
+]
+
 /**
  * Constructs a JSON RPC message connection to a service
  */
@@ -71,6 +149,49 @@ export class ServiceJsonRpcDescriptor extends ServiceRpcDescriptor {
 	private readonly multiplexingStreamOptions?: Readonly<MultiplexingStreamOptions>
 	private readonly connectionFactory: (stream: NodeJS.ReadableStream & NodeJS.WritableStream) => MessageConnection
 
+	/**
+	 * How arguments are structured in requests over connections constructed from this descriptor.
+	 */
+	public readonly parameterStructure: JsonRpcParameterStructure
+
+	/**
+	 * Transforms the names of methods as they are known locally into the names they are known by over RPC.
+	 */
+	public readonly methodNameTransform?: MethodNameTransform
+
+	/**
+	 * Transforms the names of events as they are known locally into the names they are known by over RPC.
+	 */
+	public readonly eventNameTransform?: MethodNameTransform
+
+	/**
+	 * The names of the methods of local RPC targets that may be invoked remotely, in addition to those marked with the {@link rpcMethod} decorator.
+	 */
+	public readonly exposedMethodNames?: readonly string[]
+
+	/**
+	 * A value indicating whether local RPC targets only expose methods that are exposed explicitly.
+	 */
+	public readonly strictMethodExposure: boolean
+
+	/**
+	 * The names of methods that proxies invoke with JSON-RPC notifications instead of requests.
+	 */
+	public readonly notificationMethodNames?: readonly string[]
+
+	private readonly localProxy: boolean
+
+	/**
+	 * The options this descriptor was constructed with, so that it may be copied.
+	 */
+	private readonly multiplexingStreamOptionsOrOptions?: MultiplexingStreamOptions | ServiceJsonRpcDescriptorOptions
+
+	/**
+	 * A multiplexing stream, shared with the party at the other end of the pipe, over which streams passed over RPC are transmitted.
+	 * Only used when this descriptor does not set up a multiplexing stream of its own.
+	 */
+	private multiplexingStream?: MultiplexingStream
+
 	/**
 	 * Initializes a new instance of the [ServiceJsonRpcDescriptor](#ServiceJsonRpcDescriptor) class
 	 * @param moniker The moniker this descriptor describes
@@ -89,15 +210,26 @@ export class ServiceJsonRpcDescriptor extends ServiceRpcDescriptor {
 		let multiplexingStreamOptions: MultiplexingStreamOptions | undefined
 		let outgoingMessageFilter: OutgoingMessageFilter | undefined
 		let incomingMessageFilter: IncomingMessageFilter | undefined
-
-		if (
-			multiplexingStreamOptionsOrOptions &&
-			('outgoingMessageFilter' in multiplexingStreamOptionsOrOptions || 'incomingMessageFilter' in multiplexingStreamOptionsOrOptions)
-		) {
+		let parameterStructure: JsonRpcParameterStructure = 'byPosition'
+		let methodNameTransform: MethodNameTransform | undefined
+		let eventNameTransform: MethodNameTransform | undefined
+		let exposedMethodNames: readonly string[] | undefined
+		let strictMethodExposure = false
+		let notificationMethodNames: readonly string[] | undefined
+		let localProxy = false
+
+		if (multiplexingStreamOptionsOrOptions && descriptorOptionNames.some(name => name in multiplexingStreamOptionsOrOptions)) {
 			const opts = multiplexingStreamOptionsOrOptions as ServiceJsonRpcDescriptorOptions
 			multiplexingStreamOptions = opts.multiplexingStreamOptions
 			outgoingMessageFilter = opts.outgoingMessageFilter
 			incomingMessageFilter = opts.incomingMessageFilter
+			parameterStructure = opts.parameterStructure ?? 'byPosition'
+			methodNameTransform = opts.methodNameTransform
+			eventNameTransform = opts.eventNameTransform ?? opts.methodNameTransform
+			exposedMethodNames = opts.exposedMethodNames
+			strictMethodExposure = opts.strictMethodExposure ?? false
+			notificationMethodNames = opts.notificationMethodNames
+			localProxy = opts.useLocalProxy ?? false
 		} else {
 			multiplexingStreamOptions = multiplexingStreamOptionsOrOptions as MultiplexingStreamOptions | undefined
 		}
@@ -137,6 +269,14 @@ export class ServiceJsonRpcDescriptor extends ServiceRpcDescriptor {
 		}
 
 		this.multiplexingStreamOptions = multiplexingStreamOptions === undefined ? undefined : Object.freeze(multiplexingStreamOptions)
+		this.parameterStructure = parameterStructure
+		this.methodNameTransform = methodNameTransform
+		this.eventNameTransform = eventNameTransform
+		this.exposedMethodNames = exposedMethodNames === undefined ? undefined : Object.freeze([...exposedMethodNames])
+		this.strictMethodExposure = strictMethodExposure
+		this.notificationMethodNames = notificationMethodNames === undefined ? undefined : Object.freeze([...notificationMethodNames])
+		this.localProxy = localProxy
+		this.multiplexingStreamOptionsOrOptions = multiplexingStreamOptionsOrOptions
 
 		if (messageDelimiter === MessageDelimiters.HttpLikeHeaders) {
 			if (formatter !== Formatters.Utf8) {
@@ -153,6 +293,10 @@ export class ServiceJsonRpcDescriptor extends ServiceRpcDescriptor {
 		}
 	}
 
+	public get useLocalProxy(): boolean {
+		return this.localProxy
+	}
+
 	public constructRpcConnection(pipe: NodeJS.ReadWriteStream | Channel): JsonRpcConnection {
 		if (this.multiplexingStreamOptions) {
 			const multiplexingStreamOptions = this.createSeedChannels()
@@ -161,10 +305,28 @@ export class ServiceJsonRpcDescriptor extends ServiceRpcDescriptor {
 			const rpcChannel = mxstream.acceptChannel(0)
 			rpcChannel.completion.finally(() => mxstream.dispose())
 
-			return new JsonRpcConnection(constructMessageConnection(rpcChannel, this.connectionFactory))
+			// Remember the multiplexing stream so that streams passed over RPC can be transmitted over its other channels.
+			const messageConnection = constructMessageConnection(rpcChannel, this.connectionFactory)
+			setMultiplexingStream(messageConnection, mxstream)
+			return new JsonRpcConnection(messageConnection, this.connectionOptions)
+		}
+
+		const messageConnection = constructMessageConnection(pipe, this.connectionFactory)
+		if (this.multiplexingStream) {
+			setMultiplexingStream(messageConnection, this.multiplexingStream)
 		}
 
-		return new JsonRpcConnection(constructMessageConnection(pipe, this.connectionFactory))
+		return new JsonRpcConnection(messageConnection, this.connectionOptions)
+	}
+
+	public withMultiplexingStream(multiplexingStream: MultiplexingStream | undefined): ServiceJsonRpcDescriptor {
+		if (multiplexingStream === this.multiplexingStream) {
+			return this
+		}
+
+		const result = new ServiceJsonRpcDescriptor(this.moniker, this.formatter, this.messageDelimiter, this.multiplexingStreamOptionsOrOptions)
+		result.multiplexingStream = multiplexingStream
+		return result
 	}
 
 	public equals(descriptor: ServiceRpcDescriptor): boolean {
@@ -176,7 +338,28 @@ export class ServiceJsonRpcDescriptor extends ServiceRpcDescriptor {
 			return false
 		}
 
-		return this.formatter === descriptor.formatter && this.messageDelimiter === descriptor.messageDelimiter
+		return (
+			this.formatter === descriptor.formatter &&
+			this.messageDelimiter === descriptor.messageDelimiter &&
+			this.parameterStructure === descriptor.parameterStructure &&
+			this.methodNameTransform === descriptor.methodNameTransform &&
+			this.eventNameTransform === descriptor.eventNameTransform &&
+			sameNames(this.exposedMethodNames, descriptor.exposedMethodNames) &&
+			this.strictMethodExposure === descriptor.strictMethodExposure &&
+			sameNames(this.notificationMethodNames, descriptor.notificationMethodNames) &&
+			this.useLocalProxy === descriptor.useLocalProxy
+		)
+	}
+
+	private get connectionOptions(): JsonRpcConnectionOptions {
+		return {
+			parameterStructure: this.parameterStructure,
+			methodNameTransform: this.methodNameTransform,
+			eventNameTransform: this.eventNameTransform,
+			exposedMethodNames: this.exposedMethodNames,
+			strictMethodExposure: this.strictMethodExposure,
+			notificationMethodNames: this.notificationMethodNames,
+		}
 	}
 
 	private createSeedChannels(): MultiplexingStreamOptions {
@@ -195,6 +378,13 @@ export class ServiceJsonRpcDescriptor extends ServiceRpcDescriptor {
 	}
 }
 
+/**
+ * Gets the name an event is known by over RPC, since the proxy's event emitter raises events by the names of the notifications it receives.
+ */
+function toRpcEventName(target: IProxyTarget, eventName: string): string {
+	return target.eventNameTransform ? target.eventNameTransform(eventName) : eventName
+}
+
 const rpcProxy = {
 	get: (target: IProxyTarget, property: PropertyKey) => {
 		switch (property.toString()) {
@@ -215,44 +405,44 @@ const rpcProxy = {
 			// since we're taking over them here.
 			case 'on':
 				return function (eventName: string, handler: (...args: any[]) => void): any {
-					target.eventEmitter.on(eventName, handler)
+					target.eventEmitter.on(toRpcEventName(target, eventName), handler)
 					return target
 				}
 			case 'once':
 				return function (eventName: string, handler: (...args: any[]) => void): any {
-					target.eventEmitter.once(eventName, handler)
+					target.eventEmitter.once(toRpcEventName(target, eventName), handler)
 					return target
 				}
 			case 'prependListener':
 				return function (eventName: string, handler: (...args: any[]) => void): any {
-					target.eventEmitter.prependListener(eventName, handler)
+					target.eventEmitter.prependListener(toRpcEventName(target, eventName), handler)
 					return target
 				}
 			case 'prependOnceListener':
 				return function (eventName: string, handler: (...args: any[]) => void): any {
-					target.eventEmitter.prependOnceListener(eventName, handler)
+					target.eventEmitter.prependOnceListener(toRpcEventName(target, eventName), handler)
 					return target
 				}
 			case 'addListener':
 				return function (eventName: string, handler: (...args: any[]) => void): any {
-					target.eventEmitter.addListener(eventName, handler)
+					target.eventEmitter.addListener(toRpcEventName(target, eventName), handler)
 					return target
 				}
 			case 'rawListeners':
 				return target.eventEmitter.rawListeners
 			case 'removeAllListeners':
 				return function (eventName: string): any {
-					target.eventEmitter.removeAllListeners(eventName)
+					target.eventEmitter.removeAllListeners(eventName === undefined ? undefined : toRpcEventName(target, eventName))
 					return target
 				}
 			case 'removeListener':
 				return function (eventName: string, handler: (...args: any[]) => void): any {
-					target.eventEmitter.removeListener(eventName, handler)
+					target.eventEmitter.removeListener(toRpcEventName(target, eventName), handler)
 					return target
 				}
 			case 'off':
 				return function (eventName: string, handler: (...args: any[]) => void): any {
-					target.eventEmitter.off(eventName, handler)
+					target.eventEmitter.off(toRpcEventName(target, eventName), handler)
 					return target
 				}
 			case 'listenerCount':
@@ -271,32 +461,48 @@ const rpcProxy = {
 				}
 			case 'emit':
 				return function (eventName: string, args: any[]): any {
-					target.eventEmitter.emit(eventName, args)
+					target.eventEmitter.emit(toRpcEventName(target, eventName), args)
 					return target
 				}
 
 			default:
 				return function () {
-					const methodName = property.toString()
-					return invokeRpc(methodName, arguments, target.messageConnection)
+					const methodName = target.methodNameTransform ? target.methodNameTransform(property.toString()) : property.toString()
+					return target.notificationMethodNames?.includes(property.toString())
+						? notifyRpc(methodName, arguments, target.messageConnection, target.parameterStructure)
+						: invokeRpc(methodName, arguments, target.messageConnection, target.parameterStructure)
 				}
 		}
 	},
 }
 
 export class JsonRpcConnection extends RpcConnection {
-	constructor(public readonly messageConnection: MessageConnection) {
+	/**
+	 * Initializes a new instance of the {@link JsonRpcConnection} class.
+	 * @param messageConnection The JSON-RPC connection.
+	 * @param options Options that control how methods and events are exposed over the connection.
+	 */
+	constructor(
+		public readonly messageConnection: MessageConnection,
+		public readonly options: JsonRpcConnectionOptions = {}
+	) {
 		super()
 	}
 
 	public addLocalRpcTarget(rpcTarget: any | RpcEventServer): void {
-		registerInstanceMethodsAsRpcTargets(rpcTarget, this.messageConnection)
+		registerInstanceMethodsAsRpcTargets(rpcTarget, this.messageConnection, {
+			rpcMethodNameTransform: this.options.methodNameTransform,
+			parameterStructure: this.options.parameterStructure,
+			exposedMethodNames: this.options.exposedMethodNames,
+			strictMethodExposure: this.options.strictMethodExposure,
+		})
 
 		// If the RPC target is an event emitter, hook up a handler that forwards all events across RPC.
 		if (RpcConnection.IsRpcEventServer(rpcTarget)) {
 			for (let eventName of rpcTarget.rpcEventNames) {
+				const rpcEventName = this.options.eventNameTransform ? this.options.eventNameTransform(eventName) : eventName
 				rpcTarget.on(eventName, (...args) => {
-					this.messageConnection.sendNotification(eventName, ParameterStructures.byPosition, ...args)
+					this.messageConnection.sendNotification(rpcEventName, ParameterStructures.byPosition, ...args)
 				})
 			}
 		}
@@ -310,6 +516,10 @@ export class JsonRpcConnection extends RpcConnection {
 		const target: IProxyTarget = {
 			messageConnection: this.messageConnection,
 			eventEmitter: new EventEmitter(),
+			parameterStructure: this.options.parameterStructure ?? 'byPosition',
+			methodNameTransform: this.options.methodNameTransform,
+			eventNameTransform: this.options.eventNameTransform,
+			notificationMethodNames: this.options.notificationMethodNames,
 		}
 		this.messageConnection.onNotification((method: string, args: any[] | object | undefined): void => {
 			// Javascript really only supports receiving JSON-RPC messages with positional arguments,
@@ -330,7 +540,24 @@ export class JsonRpcConnection extends RpcConnection {
 	public dispose(): void {}
 }
 
+/**
+ * Tests whether two optional lists of names contain the same names, regardless of their order.
+ */
+function sameNames(names1: readonly string[] | undefined, names2: readonly string[] | undefined): boolean {
+	if (names1 === undefined || names2 === undefined) {
+		return names1 === names2
+	}
+
+	const set1 = new Set(names1)
+	const set2 = new Set(names2)
+	return set1.size === set2.size && [...set1].every(name => set2.has(name))
+}
+
 export interface IProxyTarget {
 	messageConnection: MessageConnection
 	eventEmitter: EventEmitter
+	parameterStructure: JsonRpcParameterStructure
+	methodNameTransform?: MethodNameTransform
+	eventNameTransform?: MethodNameTransform
+	notificationMethodNames?: readonly string[]
 }
@@ -1,6 +1,6 @@
 import assert from 'assert'
 import { IDisposable } from './IDisposable'
-import { Channel } from 'nerdbank-streams'
+import { Channel, FullDuplexStream, MultiplexingStream } from 'nerdbank-streams'
 import { ServiceMoniker } from './ServiceMoniker'
 
 /**
@@ -65,6 +65,62 @@ export abstract class ServiceRpcDescriptor {
 		return client
 	}
 
+	/**
+	 * Gets a descriptor that establishes connections which may open additional channels on a given multiplexing stream,
+	 * such as to transmit streams passed over RPC.
+	 * @param multiplexingStream The multiplexing stream shared with the party at the other end of the pipes given to {@link constructRpcConnection}.
+	 * @returns A descriptor that uses the multiplexing stream. Descriptors that have no use for it return themselves.
+	 */
+	public withMultiplexingStream(multiplexingStream: MultiplexingStream | undefined): ServiceRpcDescriptor {
+		return this
+	}
+
+	/**
+	 * Gets a value indicating whether services proffered in the same process are given to clients through a proxy from {@link constructLocalProxy},
+	 * rather than as the service objects themselves.
+	 */
+	public get useLocalProxy(): boolean {
+		return false
+	}
+
+	/**
+	 * Constructs a proxy to a local object that observes the semantics of RPC,
+	 * so that code that consumes a service in the same process keeps working when the service moves to another process.
+	 * Every call is asynchronous, and arguments and results are copied by transmitting them over an in-memory pipe.
+	 * @param rpcTarget The local object.
+	 * @returns The proxy, which disconnects from the object when disposed.
+	 */
+	public constructLocalProxy<T extends object>(rpcTarget: any): T & IDisposable {
+		const [serviceConnection, clientConnection] = this.constructLocalRpcConnections()
+		serviceConnection.addLocalRpcTarget(rpcTarget)
+		serviceConnection.startListening()
+		const client = clientConnection.constructRpcClient<T>()
+		clientConnection.startListening()
+		return client
+	}
+
+	/**
+	 * Establishes both ends of an in-memory RPC connection, as {@link constructLocalProxy} uses.
+	 * Each end has its own multiplexing stream, so that streams may be passed over RPC just as they are between processes.
+	 * @returns The connection for the service's end, and the one for the client's end.
+	 */
+	public constructLocalRpcConnections(): [RpcConnection, RpcConnection] {
+		const pipes = FullDuplexStream.CreatePair()
+		const multiplexingStreams = [pipes.first, pipes.second].map(pipe => MultiplexingStream.Create(pipe, { protocolMajorVersion: 3, seededChannels: [{}] }))
+
+		// RPC messages are carried over the seeded channel 0, leaving the other channels for streams.
+		const rpcChannels = multiplexingStreams.map(multiplexingStream => multiplexingStream.acceptChannel(0))
+
+		// Keep both multiplexing streams until both channels are closed, so that the end closed first can tell the other.
+		Promise.allSettled(rpcChannels.map(channel => channel.completion)).then(() =>
+			multiplexingStreams.forEach(multiplexingStream => multiplexingStream.dispose())
+		)
+		const [serviceConnection, clientConnection] = multiplexingStreams.map((multiplexingStream, i) =>
+			this.withMultiplexingStream(multiplexingStream).constructRpcConnection(rpcChannels[i])
+		)
+		return [serviceConnection, clientConnection]
+	}
+
 	/**
 	 * Determines if two descriptors are equivalent values
 	 * @param descriptor The descriptor to compare for equality
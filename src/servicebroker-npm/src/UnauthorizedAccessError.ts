@@ -0,0 +1,67 @@
+import { ResponseError } from 'vscode-jsonrpc'
+import { CommonErrorData } from './jsonRpc/CommonErrorData'
+import { JsonRpcErrorCode } from './jsonRpc/JsonRpcErrorCode'
+import { ProtectedOperation } from './ProtectedOperation'
+import { RemoteInvocationError } from './RemoteInvocationError'
+
+/**
+ * Used to indicate that a client is not authorized to perform an operation.
+ * It is transmitted over JSON-RPC as an error response, so it is a {@link RemoteInvocationError} whose {@link RemoteInvocationError.errorCode} is {@link JsonRpcErrorCode.invocationError}.
+ */
+export class UnauthorizedAccessError extends RemoteInvocationError {
+	/**
+	 * The name of the equivalent .NET exception type, as it appears in serialized errors.
+	 */
+	public static readonly typeName = 'System.UnauthorizedAccessException'
+
+	/**
+	 * The HResult .NET assigns to the equivalent exception (E_ACCESSDENIED).
+	 */
+	private static readonly hResult = -2147024891
+
+	/**
+	 * Initializes a new instance of the {@link UnauthorizedAccessError} class.
+	 * @param operation The operation the client is not authorized to perform, if known.
+	 * @param message An optional message to use instead of the default one.
+	 * @param errorData The `data` from the error response, when this error was received over JSON-RPC.
+	 */
+	constructor(
+		public readonly operation?: ProtectedOperation,
+		message?: string,
+		errorData?: CommonErrorData
+	) {
+		super(
+			message ?? (operation ? `The client is not authorized to perform the "${operation.operationMoniker}" operation.` : 'Access is denied.'),
+			JsonRpcErrorCode.invocationError,
+			errorData,
+			errorData?.inner ? { cause: CommonErrorData.toError(errorData.inner) } : {}
+		)
+		this.name = 'UnauthorizedAccessError'
+	}
+
+	/**
+	 * Creates a JSON-RPC error response that describes this error in a .NET-compatible shape.
+	 */
+	public toResponseError(): ResponseError<CommonErrorData> {
+		const data: CommonErrorData = { ...CommonErrorData.create(this, UnauthorizedAccessError.typeName), code: UnauthorizedAccessError.hResult }
+		return new ResponseError(JsonRpcErrorCode.invocationError, this.message, data)
+	}
+
+	/**
+	 * Recreates an {@link UnauthorizedAccessError} from a JSON-RPC error response, if it describes one.
+	 * @param error The error received from the remote party.
+	 * @returns The rehydrated error, or `undefined` if the error does not describe an authorization failure.
+	 */
+	public static tryFromResponseError(error: unknown): UnauthorizedAccessError | undefined {
+		if (!(error instanceof ResponseError) || !CommonErrorData.is(error.data) || error.data.type !== UnauthorizedAccessError.typeName) {
+			return undefined
+		}
+
+		const result = new UnauthorizedAccessError(undefined, error.data.message ?? error.message, error.data)
+		if (error.data.stack) {
+			result.stack = error.data.stack
+		}
+
+		return result
+	}
+}
@@ -0,0 +1,19 @@
+import { ProtectedOperation } from '../ProtectedOperation'
+
+/**
+ * Decides which operations the clients of a {@linkcode DefaultAuthorizationService} are authorized to perform, based on their credentials.
+ */
+export interface AuthorizationPolicy {
+	/**
+	 * Tests whether a client is the owner of the host, who is authorized to perform every operation.
+	 * @param clientCredentials The credentials of the client.
+	 */
+	isOwner(clientCredentials: Readonly<{ [key: string]: string }>): boolean
+
+	/**
+	 * Gets the operations that a client other than the owner is authorized to perform.
+	 * An operation is authorized when one of these is a superset of it, as determined by {@linkcode ProtectedOperation.isSupersetOf}.
+	 * @param clientCredentials The credentials of the client.
+	 */
+	getAuthorizedOperations(clientCredentials: Readonly<{ [key: string]: string }>): readonly ProtectedOperation[]
+}
@@ -0,0 +1,89 @@
+import assert from 'assert'
+import CancellationToken from 'cancellationtoken'
+import { EventEmitter } from 'events'
+import { AuthorizationServiceEmitter, IAuthorizationService } from '../IAuthorizationService'
+import { rpcMethod } from '../jsonRpc/RpcMethod'
+import { ProtectedOperation } from '../ProtectedOperation'
+import { AuthorizationPolicy } from './AuthorizationPolicy'
+
+/**
+ * An authorization service that fully trusts the owner of the host, and authorizes other clients as an {@linkcode AuthorizationPolicy} dictates.
+ * Use {@linkcode GlobalBrokeredServiceContainer.profferAuthorizationService} to offer it as the {@linkcode FrameworkServices.authorization} service.
+ * Only the methods of {@linkcode IAuthorizationService} are exposed to RPC, so remote clients cannot change the policy.
+ */
+export class DefaultAuthorizationService extends (EventEmitter as new () => AuthorizationServiceEmitter) implements IAuthorizationService {
+	/**
+	 * The service that owns the policy, when this service was created for a client by {@linkcode forClient}.
+	 */
+	private root?: DefaultAuthorizationService
+
+	/**
+	 * Initializes a new instance of the {@linkcode DefaultAuthorizationService} class.
+	 * @param currentPolicy The policy that decides which operations clients are authorized to perform.
+	 * @param clientCredentials The credentials of the client this service answers for.
+	 */
+	public constructor(
+		private currentPolicy: AuthorizationPolicy,
+		private readonly clientCredentials: Readonly<{ [key: string]: string }> = {}
+	) {
+		super()
+		assert(currentPolicy)
+	}
+
+	/**
+	 * Gets the policy that decides which operations clients are authorized to perform.
+	 */
+	public get policy(): AuthorizationPolicy {
+		return (this.root ?? this).currentPolicy
+	}
+
+	/**
+	 * Replaces the policy, and raises the `authorizationChanged` event on this service and every service created for a client from it.
+	 * @param policy The new policy.
+	 */
+	public setPolicy(policy: AuthorizationPolicy): void {
+		assert(policy)
+		const root = this.root ?? this
+		root.currentPolicy = policy
+		root.emit('authorizationChanged')
+	}
+
+	/**
+	 * Creates a service that answers for a given client, under the same policy as this one.
+	 * The result should be disposed of when the client no longer needs it.
+	 * @param clientCredentials The credentials of the client.
+	 */
+	public forClient(clientCredentials: Readonly<{ [key: string]: string }>): DefaultAuthorizationService {
+		const root = this.root ?? this
+		const result = new DefaultAuthorizationService(root.currentPolicy, clientCredentials)
+		result.root = root
+		root.on('authorizationChanged', result.onRootAuthorizationChanged)
+		return result
+	}
+
+	@rpcMethod
+	public getCredentials(cancellationToken?: CancellationToken): Promise<{ [key: string]: string }> {
+		return Promise.resolve({ ...this.clientCredentials })
+	}
+
+	@rpcMethod
+	public checkAuthorization(operation: ProtectedOperation, cancellationToken?: CancellationToken): Promise<boolean> {
+		assert(operation)
+		const policy = this.policy
+		if (policy.isOwner(this.clientCredentials)) {
+			return Promise.resolve(true)
+		}
+
+		return Promise.resolve(
+			policy.getAuthorizedOperations(this.clientCredentials).some(authorized => ProtectedOperation.isSupersetOf(authorized, operation))
+		)
+	}
+
+	public dispose(): void {
+		this.root?.off('authorizationChanged', this.onRootAuthorizationChanged)
+	}
+
+	private onRootAuthorizationChanged = () => {
+		this.emit('authorizationChanged')
+	}
+}
@@ -1,6 +1,6 @@
 import * as immutable from 'immutable'
 import type { BrokeredServiceFactory, IBrokeredServiceContainer } from './IBrokeredServiceContainer'
-import type { ServiceRegistration } from './ServiceRegistration'
+import { ServiceRegistration } from './ServiceRegistration'
 import { ServiceSource } from './ServiceSource'
 import type { IProffered } from './IProffered'
 import { View } from './View'
@@ -18,6 +18,18 @@ import { IServiceBroker } from '../IServiceBroker'
 import { ServiceActivationOptions } from '../ServiceActivationOptions'
 import { ServiceMoniker } from '../ServiceMoniker'
 import { ServiceRpcDescriptor } from '../ServiceRpcDescriptor'
+import { ServiceJsonRpcDescriptor } from '../ServiceJsonRpcDescriptor'
+import { Formatters, MessageDelimiters } from '../constants'
+import CancellationToken from 'cancellationtoken'
+import { MissingServiceAnalysis } from './IMissingServiceDiagnosticsService'
+import { MissingServiceDiagnosticsService } from './MissingServiceDiagnosticsService'
+import { ProfferedViewIntrinsicService, ViewIntrinsicBrokeredServiceFactory } from './ProfferedViewIntrinsicService'
+import { DefaultAuthorizationService } from './DefaultAuthorizationService'
+import { FrameworkServices } from '../FrameworkServices'
+import { CommonMethodNameTransforms } from '../jsonRpc/CommonMethodNameTransforms'
+
+/** An index of proffered services, keyed by the source that proffers them. */
+export type ProfferedServiceIndex = immutable.Map<ServiceSource, immutable.Map<ServiceMonikerValue, IProffered>>
 
 export class GlobalBrokeredServiceContainer implements IBrokeredServiceContainer {
 	/** Defines the order of sources to check for remote services. */
@@ -27,12 +39,39 @@ export class GlobalBrokeredServiceContainer implements IBrokeredServiceContainer
 	private static readonly preferredSourceOrderForLocalServices = [ServiceSource.sameProcess, ServiceSource.otherProcessOnSameMachine]
 
 	private remoteSources = immutable.Map<ServiceSource, IProffered>()
-	private profferedServiceIndex = immutable.Map<ServiceSource, immutable.Map<ServiceMonikerValue, IProffered>>()
+	private profferedServiceIndex: ProfferedServiceIndex = immutable.Map()
 	private registeredServices = immutable.Map<ServiceMonikerValue, ServiceRegistration>()
 
 	private readonly localUserCredentials = immutable.Map<string, string>()
 
-	constructor() {}
+	/** The views that have listeners for their `availabilityChanged` event. */
+	private readonly observingViews = new Set<View>()
+
+	/**
+	 * A descriptor for the service that can diagnose the cause of a missing brokered service.
+	 * Use {@linkcode IMissingServiceDiagnosticsService} to interact with this service.
+	 * @remarks Methods are exchanged under their .NET names (e.g. `AnalyzeMissingServiceAsync`) so that this service is interchangeable with the .NET one.
+	 * The .NET descriptor uses the NerdbankMessagePack formatter, which this library does not offer.
+	 * Both encode JSON-RPC messages with MessagePack, but some types may be serialized differently, so interoperability with .NET should be verified before relying on it.
+	 * In particular, some {@linkcode MissingBrokeredServiceErrorCode} values differ from those of the .NET enum.
+	 */
+	static readonly missingServiceDiagnostics = Object.freeze(
+		new ServiceJsonRpcDescriptor(
+			ServiceMoniker.create('Microsoft.VisualStudio.GlobalBrokeredServiceContainer.MissingServiceDiagnostics', '1.0'),
+			Formatters.MessagePack,
+			MessageDelimiters.BigEndianInt32LengthHeader,
+			{ methodNameTransform: CommonMethodNameTransforms.combine(CommonMethodNameTransforms.pascalCase, CommonMethodNameTransforms.asyncSuffix) }
+		)
+	)
+
+	constructor() {
+		// Add built-in services.
+		this.profferIntrinsicService(
+			GlobalBrokeredServiceContainer.missingServiceDiagnostics,
+			new ServiceRegistration(ServiceAudience.local, false),
+			view => new MissingServiceDiagnosticsService(view)
+		)
+	}
 
 	register(
 		services: {
@@ -94,6 +133,27 @@ export class GlobalBrokeredServiceContainer implements IBrokeredServiceContainer
 		)
 	}
 
+	/**
+	 * Registers and proffers the {@linkcode FrameworkServices.authorization} service,
+	 * giving each client a service created by {@linkcode DefaultAuthorizationService.forClient} for its credentials.
+	 * @param authorizationService The authorization service whose policy applies to all clients.
+	 * @returns A value that can be disposed to remove the service from availability and unregister it.
+	 */
+	profferAuthorizationService(authorizationService: DefaultAuthorizationService): IDisposable {
+		const registration = this.register([
+			{ moniker: FrameworkServices.authorization.moniker, registration: new ServiceRegistration(ServiceAudience.local, false) },
+		])
+		const proffer = this.profferServiceFactory(FrameworkServices.authorization, (mk, options) =>
+			authorizationService.forClient(options.clientCredentials ?? {})
+		)
+		return {
+			dispose: () => {
+				proffer.dispose()
+				registration.dispose()
+			},
+		}
+	}
+
 	getFullAccessServiceBroker(): IServiceBroker & IRemoteServiceBroker {
 		return new View(this, ServiceAudience.process, this.localUserCredentials, ClientCredentialsPolicy.requestOverridesDefault)
 	}
@@ -144,7 +204,37 @@ export class GlobalBrokeredServiceContainer implements IBrokeredServiceContainer
 		consumingAudience: ServiceAudience
 	): Promise<{ proffered?: IProffered; errorCode: MissingBrokeredServiceErrorCode }> {
 		const serviceMonikerValue = ServiceMonikerValue.from(serviceMoniker)
-		const { registration, matchingMoniker } = this.getServiceRegistration(serviceMonikerValue) || {}
+		const { registration } = this.getServiceRegistration(serviceMonikerValue) || {}
+		let result = this.tryGetProfferingSource(serviceMonikerValue, consumingAudience)
+		if (registration?.profferCallback && result.errorCode === MissingBrokeredServiceErrorCode.serviceFactoryNotProffered) {
+			// We should only invoke a registration callback *once*,
+			// but if it returns a promise, we and all subsequent consumers must wait for it to resolve.
+			if (typeof registration.profferCallback === 'function') {
+				const callbackResult = registration.profferCallback(this, serviceMoniker)
+				registration.profferCallback = callbackResult ? callbackResult : undefined
+			}
+
+			await registration.profferCallback
+			result = this.tryGetProfferingSource(serviceMonikerValue, consumingAudience)
+		}
+
+		return result
+	}
+
+	/**
+	 * Gets the proffering source for a given service, taking both remote and local services into account.
+	 * Unlike {@link getProfferingSource}, this never invokes a registration's proffer callback.
+	 * @param serviceMoniker The sought service.
+	 * @param consumingAudience The audience filter that applies to the service broker that has received the request.
+	 * @param profferedServiceIndex The index to search for the proffering party. The current index is used when omitted.
+	 * @returns The proffering source, if found, and the reason for failure otherwise.
+	 */
+	tryGetProfferingSource(
+		serviceMoniker: ServiceMoniker,
+		consumingAudience: ServiceAudience,
+		profferedServiceIndex: ProfferedServiceIndex = this.profferedServiceIndex
+	): { proffered?: IProffered; errorCode: MissingBrokeredServiceErrorCode } {
+		const { registration, matchingMoniker } = this.getServiceRegistration(ServiceMonikerValue.from(serviceMoniker)) || {}
 		if (!registration || !matchingMoniker) {
 			return {
 				errorCode: MissingBrokeredServiceErrorCode.notLocallyRegistered,
@@ -157,7 +247,19 @@ export class GlobalBrokeredServiceContainer implements IBrokeredServiceContainer
 		// because the audience check was performed and services filtered when the remote service broker was originally proffered.
 		let anyRemoteSourceExists = false
 		if (GlobalBrokeredServiceContainer.isLocalConsumer(consumingAudience)) {
-			// TODO: search remote sources
+			for (const source of GlobalBrokeredServiceContainer.preferredSourceOrderForRemoteServices) {
+				const proffersFromSource = profferedServiceIndex.get(source)
+				if (proffersFromSource) {
+					anyRemoteSourceExists = true
+					const proffered = proffersFromSource.get(matchingMoniker)
+					if (proffered) {
+						return {
+							proffered,
+							errorCode: MissingBrokeredServiceErrorCode.noExplanation,
+						}
+					}
+				}
+			}
 		}
 
 		// For locally proffered services, we first check that the consuming audience is allowed to see it.
@@ -168,19 +270,16 @@ export class GlobalBrokeredServiceContainer implements IBrokeredServiceContainer
 			}
 		}
 
-		if (registration.profferCallback) {
-			// We should only invoke a registration callback *once*,
-			// but if it returns a promise, we and all subsequent consumers must wait for it to resolve.
-			if (typeof registration.profferCallback === 'function') {
-				const callbackResult = registration.profferCallback(this, serviceMoniker)
-				registration.profferCallback = callbackResult ? callbackResult : undefined
+		if (anyRemoteSourceExists && registration.isExposedLocally && registration.isExposedRemotely) {
+			// We are connected to some remote host, and this service is designed to come from at least one kind of remote host.
+			// We therefore block the service from being accessed because we don't want a locally proffered service in this case.
+			return {
+				errorCode: MissingBrokeredServiceErrorCode.localServiceHiddenOnRemoteClient,
 			}
-
-			await registration.profferCallback
 		}
 
 		for (const source of GlobalBrokeredServiceContainer.preferredSourceOrderForLocalServices) {
-			const proffersFromSource = this.profferedServiceIndex.get(source)
+			const proffersFromSource = profferedServiceIndex.get(source)
 			if (proffersFromSource) {
 				const proffered = proffersFromSource.get(matchingMoniker)
 				if (proffered) {
@@ -197,6 +296,37 @@ export class GlobalBrokeredServiceContainer implements IBrokeredServiceContainer
 		}
 	}
 
+	/**
+	 * Analyzes possible explanations for why a brokered service could not be acquired by a given audience.
+	 * The service is sought through a view for that audience, so the analysis is subject to the same checks as a request for the service.
+	 * @param serviceMoniker The moniker of the missing brokered service.
+	 * @param consumingAudience The audience filter that applies to the service broker that failed to produce the service.
+	 * @param cancellationToken A cancellation token.
+	 * @returns An analysis describing the first problem encountered while looking for the brokered service.
+	 */
+	analyzeMissingService(
+		serviceMoniker: ServiceMoniker,
+		consumingAudience: ServiceAudience,
+		cancellationToken?: CancellationToken
+	): Promise<MissingServiceAnalysis> {
+		const view = new View(this, consumingAudience, immutable.Map<string, string>(), ClientCredentialsPolicy.requestOverridesDefault)
+		return view.analyzeMissingService(serviceMoniker, cancellationToken)
+	}
+
+	/**
+	 * Gets each of the distinct parties that currently proffer services to this container.
+	 */
+	getAllProffered(): IProffered[] {
+		const result = new Set<IProffered>(this.remoteSources.values())
+		for (const proffersFromSource of this.profferedServiceIndex.values()) {
+			for (const proffered of proffersFromSource.values()) {
+				result.add(proffered)
+			}
+		}
+
+		return [...result]
+	}
+
 	removeRegistrations(proffered: IProffered) {
 		const oldIndex = this.profferedServiceIndex
 		switch (proffered.source) {
@@ -220,12 +350,41 @@ export class GlobalBrokeredServiceContainer implements IBrokeredServiceContainer
 		this.onAvailabilityChanged(oldIndex, proffered)
 	}
 
-	onAvailabilityChanged(
-		old: immutable.Map<ServiceSource, immutable.Map<ServiceMoniker, IProffered>> | null,
-		proffered: IProffered,
-		impactedServices?: ServiceMoniker[]
-	) {
-		// TODO: code here
+	/**
+	 * Instructs each {@link View} with event listeners to raise its `availabilityChanged` event.
+	 * @param oldIndex The index of available services before the change. Null if no proffered index was changed, but an underlying service broker says a change was made.
+	 * @param proffered The service proffering entity that has changed the set of services available to us.
+	 * @param impactedServices A subset of services that are impacted by the change. If omitted, all services associated with the proffering party are impacted.
+	 */
+	onAvailabilityChanged(oldIndex: ProfferedServiceIndex | null, proffered: IProffered, impactedServices?: readonly ServiceMoniker[]) {
+		if (this.observingViews.size === 0) {
+			return
+		}
+
+		const intersectedServices = impactedServices
+			? proffered.monikers.filter(m => impactedServices.some(i => ServiceMoniker.equals(m, i)))
+			: proffered.monikers
+
+		for (const view of [...this.observingViews]) {
+			try {
+				view.onAvailabilityChanged(oldIndex, proffered, intersectedServices)
+			} catch {
+				// An event handler's failure should neither disrupt the proffering party nor prevent other views from being notified.
+			}
+		}
+	}
+
+	/**
+	 * Starts or stops notifying a {@link View} of changes to service availability.
+	 * @param view The view whose event listeners have changed.
+	 * @param observing A value indicating whether the view has any `availabilityChanged` listeners.
+	 */
+	setViewObserving(view: View, observing: boolean) {
+		if (observing) {
+			this.observingViews.add(view)
+		} else {
+			this.observingViews.delete(view)
+		}
 	}
 
 	/**
@@ -293,11 +452,16 @@ export class GlobalBrokeredServiceContainer implements IBrokeredServiceContainer
 		}
 	}
 
+	private profferIntrinsicService(descriptor: ServiceRpcDescriptor, registration: ServiceRegistration, factory: ViewIntrinsicBrokeredServiceFactory) {
+		this.register([{ moniker: descriptor.moniker, registration }])
+		this.profferInternal(new ProfferedViewIntrinsicService(this, descriptor, factory))
+	}
+
 	private profferInternal(proffered: IProffered): IDisposable {
 		const oldIndex = this.profferedServiceIndex
 
 		if (proffered.source > ServiceSource.otherProcessOnSameMachine) {
-			this.remoteSources.set(proffered.source, proffered)
+			this.remoteSources = this.remoteSources.set(proffered.source, proffered)
 		}
 
 		let monikerAndProffer: immutable.Map<ServiceMonikerValue, IProffered> = this.profferedServiceIndex.get(proffered.source) ?? immutable.Map()
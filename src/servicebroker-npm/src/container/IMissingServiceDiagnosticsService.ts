@@ -0,0 +1,32 @@
+import CancellationToken from 'cancellationtoken'
+import { ServiceMoniker } from '../ServiceMoniker'
+import { MissingBrokeredServiceErrorCode } from './MissingBrokeredServiceErrorCode'
+import { ServiceSource } from './ServiceSource'
+
+/**
+ * Contains the result of a missing service analysis as returned from {@linkcode IMissingServiceDiagnosticsService.analyzeMissingService}.
+ */
+export interface MissingServiceAnalysis {
+	/**
+	 * The error code explaining why the service could not be obtained.
+	 */
+	errorCode: MissingBrokeredServiceErrorCode
+
+	/**
+	 * The source that the service was expected to come from.
+	 */
+	expectedSource?: ServiceSource
+}
+
+/**
+ * Provides diagnostics to understand why brokered services are not activatable.
+ */
+export interface IMissingServiceDiagnosticsService {
+	/**
+	 * Analyzes possible explanations for why a brokered service could not be acquired.
+	 * @param missingServiceMoniker The moniker of the missing brokered service.
+	 * @param cancellationToken A cancellation token.
+	 * @returns An analysis describing the first problem encountered while looking for the brokered service.
+	 */
+	analyzeMissingService(missingServiceMoniker: ServiceMoniker, cancellationToken?: CancellationToken): Promise<MissingServiceAnalysis>
+}
@@ -1,46 +1,57 @@
-/** Defines the several reasons a brokered service might not be obtained. */
+/**
+ * Defines the several reasons a brokered service might not be obtained.
+ * @remarks The values of these members differ from those of the .NET enum from `serviceAudienceMismatch` on,
+ * so errors exchanged with .NET carry the code by name (see `ServiceActivationFailedError`).
+ */
 export enum MissingBrokeredServiceErrorCode {
 	/**
 	 * Nothing could be found wrong to explain the missing service.
 	 * It may be available now.
 	 */
-	noExplanation,
+	noExplanation = 0,
 
 	/**
 	 * The requested service had no match in the local service registry.
 	 * @remarks All services, whether local or remote, must be in the local registry in order to be acquired locally.
 	 */
-	notLocallyRegistered,
+	notLocallyRegistered = 1,
 
 	/**
 	 * Special resiliency testing configuration is in place and denied access to this service.
 	 */
-	chaosConfigurationDeniedRequest,
+	chaosConfigurationDeniedRequest = 2,
 
 	/**
 	 * The service is not exposed to the audience making the request.
 	 */
-	serviceAudienceMismatch,
+	serviceAudienceMismatch = 3,
 
 	/**
 	 * The service is registered but no factory has been loaded for it.
 	 */
-	serviceFactoryNotProffered,
+	serviceFactoryNotProffered = 4,
 
 	/**
 	 * The service factory returned null instead of an instance of the service.
 	 */
-	serviceFactoryReturnedNull,
+	serviceFactoryReturnedNull = 5,
 
 	/**
 	 * The service factory threw an exception.
 	 */
-	serviceFactoryFault,
+	serviceFactoryFault = 6,
 
 	/**
 	 * The service is expected to come from a remote server
 	 * but the connection is not ready yet or the server does not offer it.
 	 * A locally proffered service is not available when it also can come remotely and a remote connection exists or is expected.
 	 */
-	localServiceHiddenOnRemoteClient,
+	localServiceHiddenOnRemoteClient = 7,
+
+	/**
+	 * The service is expected to come from an exclusive server (e.g. a Codespace Server)
+	 * but the connection is not ready yet or the server does not offer it.
+	 * @deprecated Use {@link localServiceHiddenOnRemoteClient} instead.
+	 */
+	localServiceHiddenOnExclusiveClient = 8,
 }
@@ -0,0 +1,15 @@
+import CancellationToken from 'cancellationtoken'
+import { ServiceMoniker } from '../ServiceMoniker'
+import { IMissingServiceDiagnosticsService, MissingServiceAnalysis } from './IMissingServiceDiagnosticsService'
+import { View } from './View'
+
+/**
+ * A view-intrinsic brokered service that can analyze why that particular {@link View} is incapable of producing some requested service.
+ */
+export class MissingServiceDiagnosticsService implements IMissingServiceDiagnosticsService {
+	constructor(private readonly view: View) {}
+
+	analyzeMissingService(missingServiceMoniker: ServiceMoniker, cancellationToken?: CancellationToken): Promise<MissingServiceAnalysis> {
+		return this.view.analyzeMissingService(missingServiceMoniker, cancellationToken)
+	}
+}
@@ -82,7 +82,7 @@ export class ProfferedRemoteServiceBroker extends (EventEmitter as new () => Ser
 		this.container.removeRegistrations(this)
 	}
 
-	private onAvailabilityChanged(args: BrokeredServicesChangedArgs) {
+	private readonly onAvailabilityChanged = (args: BrokeredServicesChangedArgs) => {
 		this.container.onAvailabilityChanged(null, this, args.impactedServices)
 		this.emit('availabilityChanged', args)
 	}
@@ -66,7 +66,7 @@ export class ProfferedServiceBroker extends (EventEmitter as new () => ServiceBr
 		this.container.removeRegistrations(this)
 	}
 
-	private onAvailabilityChanged(args: BrokeredServicesChangedArgs) {
+	private readonly onAvailabilityChanged = (args: BrokeredServicesChangedArgs) => {
 		this.container.onAvailabilityChanged(null, this, args.impactedServices)
 		this.emit('availabilityChanged', args)
 	}
@@ -5,6 +5,7 @@ import { IDisposable } from '../IDisposable'
 import { IRemoteServiceBroker } from '../IRemoteServiceBroker'
 import { IServiceBroker } from '../IServiceBroker'
 import { RemoteServiceConnectionInfo } from '../RemoteServiceConnectionInfo'
+import { ServiceActivationFailedError } from '../ServiceActivationFailedError'
 import { ServiceActivationOptions } from '../ServiceActivationOptions'
 import { ServiceBrokerClientMetadata } from '../ServiceBrokerClientMetadata'
 import { ServiceMoniker } from '../ServiceMoniker'
@@ -12,6 +13,7 @@ import { ServiceRpcDescriptor } from '../ServiceRpcDescriptor'
 import { GlobalBrokeredServiceContainer } from './GlobalBrokeredServiceContainer'
 import { BrokeredServiceFactory } from './IBrokeredServiceContainer'
 import { IProffered } from './IProffered'
+import { MissingBrokeredServiceErrorCode } from './MissingBrokeredServiceErrorCode'
 import { RemoteServiceBrokerWrapper } from './RemoteServiceBrokerWrapper'
 import { ServiceBrokerEmitter } from './ServiceBrokerEmitter'
 import { ServiceMonikerValue } from './ServiceMonikerValue'
@@ -23,8 +25,8 @@ export class ProfferedServiceFactory extends (EventEmitter as new () => ServiceB
 	private readonly remoteServiceBrokerWrapper: IRemoteServiceBroker
 
 	constructor(
-		private readonly container: GlobalBrokeredServiceContainer,
-		private readonly descriptor: ServiceRpcDescriptor,
+		protected readonly container: GlobalBrokeredServiceContainer,
+		protected readonly descriptor: ServiceRpcDescriptor,
 		private readonly factory: BrokeredServiceFactory
 	) {
 		super()
@@ -40,6 +42,10 @@ export class ProfferedServiceFactory extends (EventEmitter as new () => ServiceB
 		cancellationToken?.throwIfCancelled()
 
 		const serviceBroker = this.container.getSecureServiceBroker(options)
+		if (serviceDescriptor.useLocalProxy) {
+			return this.getLocalProxy<T>(serviceDescriptor, serviceBroker, options, cancellationToken ?? CancellationToken.CONTINUE)
+		}
+
 		const service = (await this.invokeFactory(
 			serviceBroker,
 			serviceDescriptor.moniker,
@@ -71,12 +77,16 @@ export class ProfferedServiceFactory extends (EventEmitter as new () => ServiceB
 
 		const pipePair = FullDuplexStream.CreatePair()
 		const serviceBroker = this.container.getSecureServiceBroker(options)
-		const connection = this.descriptor.constructRpcConnection(pipePair.first)
 
-		// TODO: consider mxstream support
-		// TODO: add missing ClientRpcTarget support
+		// A relaying broker shares its multiplexing stream with the client, so the service may open more channels to it.
+		const connection = this.descriptor.withMultiplexingStream(options?.multiplexingStream).constructRpcConnection(pipePair.first)
+
+		// A client that offers an RPC target serves it at its end of the pipe, so the service calls it through the connection.
+		const serviceOptions: ServiceActivationOptions = options?.clientRpcTarget
+			? { ...options, clientRpcTarget: connection.constructRpcClient() }
+			: (options ?? {})
 
-		const service = (await this.invokeFactory(serviceBroker, serviceMoniker, options ?? {}, cancellationToken ?? CancellationToken.CONTINUE)) as {
+		const service = (await this.invokeFactory(serviceBroker, serviceMoniker, serviceOptions, cancellationToken ?? CancellationToken.CONTINUE)) as {
 			dispose?: () => void
 		}
 		try {
@@ -115,7 +125,54 @@ export class ProfferedServiceFactory extends (EventEmitter as new () => ServiceB
 		this.container.removeRegistrations(this)
 	}
 
-	private invokeFactory(serviceBroker: IServiceBroker, moniker: ServiceMoniker, options: ServiceActivationOptions, cancellationToken: CancellationToken) {
-		return this.factory(moniker, options, serviceBroker, cancellationToken)
+	/**
+	 * Activates the service behind a local proxy, which connects to it as a remote client would.
+	 * A client's RPC target is served at the client's end of the connection, so the service calls it through a proxy too.
+	 */
+	private async getLocalProxy<T extends object>(
+		serviceDescriptor: ServiceRpcDescriptor,
+		serviceBroker: IServiceBroker,
+		options: ServiceActivationOptions | undefined,
+		cancellationToken: CancellationToken
+	): Promise<(T & IDisposable) | null> {
+		const [serviceConnection, clientConnection] = serviceDescriptor.constructLocalRpcConnections()
+		const serviceOptions: ServiceActivationOptions = options?.clientRpcTarget
+			? { ...options, clientRpcTarget: serviceConnection.constructRpcClient() }
+			: (options ?? {})
+
+		const service = await this.invokeFactory(serviceBroker, serviceDescriptor.moniker, serviceOptions, cancellationToken)
+		if (!service) {
+			serviceConnection.dispose()
+			clientConnection.dispose()
+			return null
+		}
+
+		serviceConnection.addLocalRpcTarget(service)
+		serviceConnection.startListening()
+		if (options?.clientRpcTarget) {
+			clientConnection.addLocalRpcTarget(options.clientRpcTarget)
+		}
+
+		const client = clientConnection.constructRpcClient<T>()
+		clientConnection.startListening()
+		return client
+	}
+
+	private async invokeFactory(
+		serviceBroker: IServiceBroker,
+		moniker: ServiceMoniker,
+		options: ServiceActivationOptions,
+		cancellationToken: CancellationToken
+	) {
+		try {
+			return await this.factory(moniker, options, serviceBroker, cancellationToken)
+		} catch (err) {
+			// Let cancellation propagate as-is so callers that observe their own cancellation don't see an activation failure.
+			if (cancellationToken.isCancelled && err instanceof CancellationToken.CancellationError) {
+				throw err
+			}
+
+			throw new ServiceActivationFailedError(moniker, MissingBrokeredServiceErrorCode.serviceFactoryFault, err)
+		}
 	}
 }
@@ -0,0 +1,55 @@
+import CancellationToken from 'cancellationtoken'
+import { IServiceBroker } from '../IServiceBroker'
+import { ServiceActivationOptions } from '../ServiceActivationOptions'
+import { ServiceMoniker } from '../ServiceMoniker'
+import { ServiceRpcDescriptor } from '../ServiceRpcDescriptor'
+import { GlobalBrokeredServiceContainer } from './GlobalBrokeredServiceContainer'
+import { BrokeredServiceFactory } from './IBrokeredServiceContainer'
+import { IProffered } from './IProffered'
+import { ProfferedServiceFactory } from './ProfferedServiceFactory'
+import { View } from './View'
+
+/**
+ * A factory for a service that is intrinsic to each view, and therefore receives the view that is requesting it.
+ */
+export type ViewIntrinsicBrokeredServiceFactory = (
+	view: View,
+	moniker: ServiceMoniker,
+	options: ServiceActivationOptions,
+	serviceBroker: IServiceBroker,
+	cancellationToken: CancellationToken
+) => ReturnType<BrokeredServiceFactory>
+
+/**
+ * A proffered service whose instances are tied to the {@link View} through which they are requested.
+ */
+export class ProfferedViewIntrinsicService extends ProfferedServiceFactory {
+	private readonly viewProfferings = new WeakMap<View, IProffered>()
+
+	constructor(
+		container: GlobalBrokeredServiceContainer,
+		descriptor: ServiceRpcDescriptor,
+		private readonly viewFactory: ViewIntrinsicBrokeredServiceFactory
+	) {
+		super(container, descriptor, () => {
+			throw new Error('This service can only be activated through a view.')
+		})
+	}
+
+	/**
+	 * Gets a proffering party that activates this service on behalf of a given view.
+	 * The same instance is returned for a given view so that requests it serves can later be canceled through it.
+	 * @param view The view through which the service is being requested.
+	 */
+	forView(view: View): IProffered {
+		let proffered = this.viewProfferings.get(view)
+		if (!proffered) {
+			proffered = new ProfferedServiceFactory(this.container, this.descriptor, (moniker, options, serviceBroker, cancellationToken) =>
+				this.viewFactory(view, moniker, options, serviceBroker, cancellationToken)
+			)
+			this.viewProfferings.set(view, proffered)
+		}
+
+		return proffered
+	}
+}
@@ -16,7 +16,8 @@ export class ServiceMonikerValue implements ServiceMoniker {
 			this.version = version
 		} else {
 			this.name = templateOrName.name
-			this.version = templateOrName.version
+			// Monikers that were deserialized may carry a null version, which we treat the same as an absent one.
+			this.version = templateOrName.version ?? undefined
 		}
 	}
 
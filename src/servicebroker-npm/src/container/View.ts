@@ -1,29 +1,46 @@
+import caught from 'caught'
 import CancellationToken from 'cancellationtoken'
+import { randomUUID } from 'crypto'
 import { EventEmitter } from 'events'
 import { Map } from 'immutable'
+import { Channel, MultiplexingStream } from 'nerdbank-streams'
 import { RemoteServiceConnections } from '../constants'
 import { FrameworkServices } from '../FrameworkServices'
 import { IDisposable } from '../IDisposable'
+import { IpcRelayServiceBroker } from '../IpcRelayServiceBroker'
 import { IAuthorizationService } from '../IAuthorizationService'
 import { IRemoteServiceBroker } from '../IRemoteServiceBroker'
 import { IServiceBroker } from '../IServiceBroker'
-import { ProtectedOperation } from '../ProtectedOperation'
 import { RemoteServiceConnectionInfo } from '../RemoteServiceConnectionInfo'
 import { ServiceActivationOptions } from '../ServiceActivationOptions'
 import { ServiceBrokerClientMetadata } from '../ServiceBrokerClientMetadata'
 import { ServiceMoniker } from '../ServiceMoniker'
 import { ServiceRpcDescriptor } from '../ServiceRpcDescriptor'
+import { UnauthorizedAccessError } from '../UnauthorizedAccessError'
 import { ClientCredentialsPolicy } from './ClientCredentialsPolicy'
-import { GlobalBrokeredServiceContainer } from './GlobalBrokeredServiceContainer'
+import { GlobalBrokeredServiceContainer, ProfferedServiceIndex } from './GlobalBrokeredServiceContainer'
+import { MissingServiceAnalysis } from './IMissingServiceDiagnosticsService'
+import { MissingBrokeredServiceErrorCode } from './MissingBrokeredServiceErrorCode'
+import { IProffered } from './IProffered'
+import { ProfferedViewIntrinsicService } from './ProfferedViewIntrinsicService'
 import { ServiceAudience } from './ServiceAudience'
 import { ServiceBrokerEmitter } from './ServiceBrokerEmitter'
 import { ServiceMonikerValue } from './ServiceMonikerValue'
+import { WellKnownProtectedOperations } from './WellKnownProtectedOperations'
 
 /**
  * A filtered view into a brokered service container.
  */
 export class View extends (EventEmitter as new () => ServiceBrokerEmitter) implements IServiceBroker, IRemoteServiceBroker {
-	private static readonly clientIsOwnerOperation = ProtectedOperation.create('ClientIsOwnerOfHost')
+	/**
+	 * The multiplexing channels offered to clients that must stay authorized as the owner of the host, until they are accepted, keyed by request id.
+	 */
+	private readonly guardedChannelOffers: { [requestId: string]: Channel } = {}
+
+	/**
+	 * The relay of IPC pipes to clients that must stay authorized as the owner of the host, once any was requested.
+	 */
+	private guardedChannelRelay?: IpcRelayServiceBroker
 
 	constructor(
 		private readonly container: GlobalBrokeredServiceContainer,
@@ -34,6 +51,20 @@ export class View extends (EventEmitter as new () => ServiceBrokerEmitter) imple
 		private readonly clientUICulture?: string
 	) {
 		super()
+
+		// Only views that someone is listening to need to hear about availability changes from the container.
+		// This lets views that are no longer referenced be collected without an explicit disposal.
+		const emitter = this as EventEmitter
+		emitter.on('newListener', (eventName: string | symbol) => {
+			if (eventName === 'availabilityChanged' && this.listenerCount('availabilityChanged') === 0) {
+				this.container.setViewObserving(this, true)
+			}
+		})
+		emitter.on('removeListener', (eventName: string | symbol) => {
+			if (eventName === 'availabilityChanged' && this.listenerCount('availabilityChanged') === 0) {
+				this.container.setViewObserving(this, false)
+			}
+		})
 	}
 
 	async getProxy<T extends object>(
@@ -43,12 +74,53 @@ export class View extends (EventEmitter as new () => ServiceBrokerEmitter) imple
 	): Promise<(T & IDisposable) | null> {
 		cancellationToken?.throwIfCancelled()
 		options = this.applyOptionsFilter(options)
-		const source = await this.getProfferingSource(serviceDescriptor.moniker, options, cancellationToken)
-		if (source?.proffered) {
-			return await source.proffered.getProxy<T>(serviceDescriptor, options, cancellationToken)
+		const { proffered, authorizationService } = await this.getProfferingSource(serviceDescriptor.moniker, options, cancellationToken)
+		if (!proffered) {
+			return null
+		}
+
+		let proxy: (T & IDisposable) | null = null
+		try {
+			proxy = await proffered.getProxy<T>(serviceDescriptor, options, cancellationToken)
+		} finally {
+			if (!proxy) {
+				authorizationService?.dispose()
+			}
+		}
+
+		if (proxy && authorizationService) {
+			// Wrap the proxy so that we stop watching for revoked authorization once the client disposes of it,
+			// and so that a service in this process, which the client holds directly, cannot be reached once authorization is revoked.
+			const target = proxy
+			let revoked = false
+			const release = closeWhenUnauthorized(authorizationService, () => {
+				revoked = true
+				target.dispose()
+			})
+			return new Proxy(target, {
+				get: (_, property) => {
+					if (property === 'dispose') {
+						return () => {
+							release()
+							if (!revoked) {
+								target.dispose()
+							}
+						}
+					}
+
+					if (revoked) {
+						// Only methods are replaced, so that the revoked proxy does not look like a thenable that never settles.
+						return typeof property === 'string' && property !== 'then' && typeof Reflect.get(target, property) === 'function'
+							? () => Promise.reject(new UnauthorizedAccessError(WellKnownProtectedOperations.createClientIsOwner()))
+							: undefined
+					}
+
+					return Reflect.get(target, property)
+				},
+			})
 		}
 
-		return null
+		return proxy
 	}
 
 	async getPipe(
@@ -58,12 +130,28 @@ export class View extends (EventEmitter as new () => ServiceBrokerEmitter) imple
 	): Promise<NodeJS.ReadWriteStream | null> {
 		cancellationToken?.throwIfCancelled()
 		options = this.applyOptionsFilter(options)
-		const source = await this.getProfferingSource(serviceMoniker, options, cancellationToken)
-		if (source?.proffered) {
-			return await source.proffered.getPipe(serviceMoniker, options, cancellationToken)
+		const { proffered, authorizationService } = await this.getProfferingSource(serviceMoniker, options, cancellationToken)
+		if (!proffered) {
+			return null
 		}
 
-		return null
+		let pipe: NodeJS.ReadWriteStream | null = null
+		try {
+			pipe = await proffered.getPipe(serviceMoniker, options, cancellationToken)
+		} finally {
+			if (!pipe) {
+				authorizationService?.dispose()
+			}
+		}
+
+		if (pipe && authorizationService) {
+			const target = pipe
+			const release = closeWhenUnauthorized(authorizationService, () => target.end())
+			pipe.once('finish', release)
+			pipe.once('close', release)
+		}
+
+		return pipe
 	}
 
 	handshake(clientMetadata: ServiceBrokerClientMetadata, cancellationToken?: CancellationToken | undefined): Promise<void> {
@@ -80,20 +168,154 @@ export class View extends (EventEmitter as new () => ServiceBrokerEmitter) imple
 		cancellationToken?: CancellationToken | undefined
 	): Promise<RemoteServiceConnectionInfo> {
 		cancellationToken?.throwIfCancelled()
+		if (this.requiresOwnerAuthorization(serviceMoniker)) {
+			// Serve the channel from a pipe of our own, which closes once the client is no longer authorized as the owner of the host.
+			return options?.multiplexingStream
+				? this.offerGuardedChannel(serviceMoniker, options, options.multiplexingStream, cancellationToken)
+				: this.getGuardedChannelRelay().requestServiceChannel(serviceMoniker, options, cancellationToken)
+		}
+
 		options = this.applyOptionsFilter(options)
-		const source = await this.getProfferingSource(serviceMoniker, options, cancellationToken)
-		if (source?.proffered) {
-			return source.proffered.requestServiceChannel(serviceMoniker, options, cancellationToken)
+		const { proffered, authorizationService } = await this.getProfferingSource(serviceMoniker, options, cancellationToken)
+		authorizationService?.dispose()
+		if (proffered) {
+			return proffered.requestServiceChannel(serviceMoniker, options, cancellationToken)
 		}
 
 		return Promise.resolve({})
 	}
 
 	cancelServiceRequest(serviceRequestId: string, cancellationToken?: CancellationToken | undefined): Promise<void> {
-		// Try sending the cancellation to all remote sources since we don't know which one actually handled the request
+		const guardedChannel = this.guardedChannelOffers[serviceRequestId]
+		if (guardedChannel) {
+			guardedChannel.dispose()
+			return Promise.resolve()
+		}
+
+		// Try sending the cancellation to all proffering sources since we don't know which one actually handled the request
 		// that's being canceled. Checking if a request should be canceled by the broker should be relatively cheap and
 		// since request ids are guids there's no risk of id collisions
-		throw new Error('Not yet implemented.')
+		// View intrinsic services serve each view through their own proffering party, so the cancellation must go there.
+		const cancellations = this.container
+			.getAllProffered()
+			.map(proffered => (proffered instanceof ProfferedViewIntrinsicService ? proffered.forView(this) : proffered))
+			.map(proffered => proffered.cancelServiceRequest(serviceRequestId, cancellationToken))
+		if (this.guardedChannelRelay) {
+			cancellations.push(this.guardedChannelRelay.cancelServiceRequest(serviceRequestId, cancellationToken))
+		}
+
+		return Promise.allSettled(cancellations).then(results => {
+			if (!results.some(result => result.status === 'fulfilled')) {
+				return Promise.reject('Request to cancel a channel that is not awaiting acceptance.')
+			}
+		})
+	}
+
+	/**
+	 * Analyzes possible explanations for why a brokered service could not be acquired from this view.
+	 * @param serviceMoniker The moniker of the missing brokered service.
+	 * @param cancellationToken A cancellation token.
+	 */
+	async analyzeMissingService(
+		serviceMoniker: ServiceMoniker,
+		cancellationToken: CancellationToken = CancellationToken.CONTINUE
+	): Promise<MissingServiceAnalysis> {
+		const options = this.applyOptionsFilter(undefined)
+		const { proffered, errorCode, authorizationService } = await this.getProfferingSource(serviceMoniker, options, cancellationToken)
+		authorizationService?.dispose()
+		if (!proffered) {
+			return { errorCode }
+		}
+
+		// Try activating the service to see if the factory returns a non-null value.
+		try {
+			const pipe = await proffered.getPipe(serviceMoniker, options, cancellationToken)
+			if (!pipe) {
+				return { errorCode: MissingBrokeredServiceErrorCode.serviceFactoryReturnedNull, expectedSource: proffered.source }
+			}
+
+			// Close the pipe, as we don't have a use for the service once we've acquired it.
+			pipe.end()
+
+			// Everything checks out. Transient problem perhaps?
+			return { errorCode: MissingBrokeredServiceErrorCode.noExplanation, expectedSource: proffered.source }
+		} catch (err) {
+			if (cancellationToken.isCancelled) {
+				throw err
+			}
+
+			return { errorCode: MissingBrokeredServiceErrorCode.serviceFactoryFault, expectedSource: proffered.source }
+		}
+	}
+
+	/**
+	 * Raises the `availabilityChanged` event for those impacted services whose availability has changed for this view's audience.
+	 * @param oldIndex The index of available services before the change. Null if no proffered index was changed, but an underlying service broker says a change was made.
+	 * @param proffered The service proffering entity that has changed the set of services available.
+	 * @param impactedServices The services that are impacted by the change.
+	 */
+	onAvailabilityChanged(oldIndex: ProfferedServiceIndex | null, proffered: IProffered, impactedServices: readonly ServiceMoniker[]) {
+		const impactedAndVisibleServices: ServiceMoniker[] = []
+		for (const moniker of impactedServices) {
+			const newSource = this.container.tryGetProfferingSource(moniker, this.audience).proffered
+			if (oldIndex) {
+				// The proffering tables changed. Only report the service if its source, as seen by our audience, actually changed.
+				// For example if a local service proffering changed, but the service is expected to come from a remote source,
+				// there is no meaningful change to the service from our consumer's perspective.
+				const oldSource = this.container.tryGetProfferingSource(moniker, this.audience, oldIndex).proffered
+				if (oldSource === newSource) {
+					continue
+				}
+			} else if (newSource !== proffered) {
+				// The proffering party reported an internal change, but it isn't the party that provides this service to our audience.
+				continue
+			}
+
+			impactedAndVisibleServices.push(ServiceMoniker.create(moniker.name, moniker.version))
+		}
+
+		if (impactedAndVisibleServices.length > 0) {
+			this.emit('availabilityChanged', { impactedServices: impactedAndVisibleServices, otherServicesImpacted: false })
+		}
+	}
+
+	/**
+	 * Offers a client that must stay authorized as the owner of the host a channel to a service, which is closed once that is no longer the case.
+	 * @param serviceMoniker The moniker of the service.
+	 * @param options The options for the service request.
+	 * @param multiplexingStream The multiplexing stream shared with the client, to offer the channel over.
+	 * @param cancellationToken A cancellation token.
+	 */
+	private async offerGuardedChannel(
+		serviceMoniker: ServiceMoniker,
+		options: ServiceActivationOptions,
+		multiplexingStream: MultiplexingStream,
+		cancellationToken?: CancellationToken
+	): Promise<RemoteServiceConnectionInfo> {
+		const pipe = await this.getPipe(serviceMoniker, options, cancellationToken)
+		if (!pipe) {
+			return {}
+		}
+
+		const requestId = randomUUID()
+		const channel = multiplexingStream.createChannel()
+		channel.stream.pipe(pipe)
+		pipe.pipe(channel.stream)
+
+		// The pipe is ended when authorization is revoked, and the service is released once the channel closes.
+		pipe.once('finish', () => channel.dispose())
+		caught(channel.completion.finally(() => pipe.end()))
+
+		this.guardedChannelOffers[requestId] = channel
+		caught(channel.acceptance.finally(() => delete this.guardedChannelOffers[requestId]))
+		return { requestId, multiplexingChannelId: channel.qualifiedId.id }
+	}
+
+	/**
+	 * Gets the relay that serves IPC pipes to clients that must stay authorized as the owner of the host, from pipes obtained with {@linkcode getPipe}.
+	 */
+	private getGuardedChannelRelay(): IpcRelayServiceBroker {
+		return (this.guardedChannelRelay ??= new IpcRelayServiceBroker(new ViewPipes(this)))
 	}
 
 	private applyOptionsFilter(options: ServiceActivationOptions | undefined) {
@@ -108,8 +330,24 @@ export class View extends (EventEmitter as new () => ServiceBrokerEmitter) imple
 		return localOptions
 	}
 
-	private async getProfferingSource(serviceMoniker: ServiceMoniker, options: ServiceActivationOptions, cancellationToken?: CancellationToken) {
+	/**
+	 * Finds the party that proffers a service to this view's audience, and checks that the client may have it.
+	 * @param serviceMoniker The sought service.
+	 * @param options The options for the service request.
+	 * @param cancellationToken A cancellation token.
+	 * @returns The proffering party, if found and the client may have the service, or else the reason the service is missing.
+	 * When the client had to be authorized as the owner of the host, this also returns the authorization service that authorized it, which the caller must dispose of.
+	 */
+	private async getProfferingSource(
+		serviceMoniker: ServiceMoniker,
+		options: ServiceActivationOptions,
+		cancellationToken?: CancellationToken
+	): Promise<{ proffered?: IProffered; errorCode: MissingBrokeredServiceErrorCode; authorizationService?: IAuthorizationService & IDisposable }> {
 		const source = await this.container.getProfferingSource(serviceMoniker, this.audience)
+		if (source.proffered instanceof ProfferedViewIntrinsicService) {
+			source.proffered = source.proffered.forView(this)
+		}
+
 		if (!source.proffered || !this.requiresOwnerAuthorization(serviceMoniker)) {
 			return source
 		}
@@ -118,14 +356,19 @@ export class View extends (EventEmitter as new () => ServiceBrokerEmitter) imple
 			.getSecureServiceBroker(options)
 			.getProxy<IAuthorizationService>(FrameworkServices.authorization, undefined, cancellationToken)
 		try {
-			if (await authorizationService?.checkAuthorization(View.clientIsOwnerOperation, cancellationToken)) {
-				return source
+			if (
+				authorizationService &&
+				(await authorizationService.checkAuthorization(WellKnownProtectedOperations.createClientIsOwner(), cancellationToken))
+			) {
+				return { ...source, authorizationService }
 			}
-		} finally {
+		} catch (err) {
 			authorizationService?.dispose()
+			throw err
 		}
 
-		return { errorCode: source.errorCode }
+		authorizationService?.dispose()
+		return { errorCode: MissingBrokeredServiceErrorCode.serviceAudienceMismatch }
 	}
 
 	private requiresOwnerAuthorization(serviceMoniker: ServiceMoniker) {
@@ -136,3 +379,58 @@ export class View extends (EventEmitter as new () => ServiceBrokerEmitter) imple
 		return this.container.getServiceRegistration(ServiceMonikerValue.from(serviceMoniker))?.registration.allowGuestClients === false
 	}
 }
+
+/**
+ * Closes a connection that was handed out to a client authorized as the owner of the host, when the authorization service says that is no longer the case.
+ * @param authorizationService The authorization service that authorized the client. It is disposed of when the connection is released.
+ * @param close Closes the connection.
+ * @returns A function that releases the connection from being watched, for when the client closes it.
+ */
+function closeWhenUnauthorized(authorizationService: IAuthorizationService & IDisposable, close: () => void): () => void {
+	let released = false
+	const release = () => {
+		if (!released) {
+			released = true
+			authorizationService.off('authorizationChanged', onAuthorizationChanged)
+			authorizationService.dispose()
+		}
+	}
+	const onAuthorizationChanged = async () => {
+		let authorized = false
+		try {
+			authorized = await authorizationService.checkAuthorization(WellKnownProtectedOperations.createClientIsOwner())
+		} catch {
+			// A client whose authorization can no longer be confirmed is treated as unauthorized.
+		}
+
+		if (!authorized && !released) {
+			release()
+			close()
+		}
+	}
+
+	authorizationService.on('authorizationChanged', onAuthorizationChanged)
+	return release
+}
+
+/**
+ * Gives the pipes of a view to an {@linkcode IpcRelayServiceBroker}, without subscribing the relay to the view's events,
+ * so that the view does not keep observing the container on the relay's behalf.
+ */
+class ViewPipes extends (EventEmitter as new () => ServiceBrokerEmitter) implements IServiceBroker {
+	constructor(private readonly view: View) {
+		super()
+	}
+
+	getProxy<T extends object>(
+		serviceDescriptor: ServiceRpcDescriptor,
+		options?: ServiceActivationOptions,
+		cancellationToken?: CancellationToken
+	): Promise<(T & IDisposable) | null> {
+		return this.view.getProxy<T>(serviceDescriptor, options, cancellationToken)
+	}
+
+	getPipe(serviceMoniker: ServiceMoniker, options?: ServiceActivationOptions, cancellationToken?: CancellationToken): Promise<NodeJS.ReadWriteStream | null> {
+		return this.view.getPipe(serviceMoniker, options, cancellationToken)
+	}
+}
@@ -0,0 +1,20 @@
+import { ProtectedOperation } from '../ProtectedOperation'
+
+/**
+ * Monikers of {@linkcode ProtectedOperation}s that are well-known to the brokered service container and its services.
+ */
+export namespace WellKnownProtectedOperations {
+	/**
+	 * The moniker used to represent a check for whether the client is owned by the same user account that owns the host
+	 * and therefore merits full owner trust permissions.
+	 */
+	export const clientIsOwner = 'ClientIsOwnerOfHost'
+
+	/**
+	 * Creates a new {@linkcode ProtectedOperation} that represents a {@linkcode clientIsOwner} operation.
+	 * @returns An operation that may be passed to {@linkcode IAuthorizationService.checkAuthorization}.
+	 */
+	export function createClientIsOwner(): Readonly<ProtectedOperation> {
+		return ProtectedOperation.create(clientIsOwner)
+	}
+}
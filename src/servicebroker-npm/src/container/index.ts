@@ -4,3 +4,8 @@ export { ServiceAudience } from './ServiceAudience'
 export { ServiceRegistration } from './ServiceRegistration'
 export { ServiceSource } from './ServiceSource'
 export { ClientCredentialsPolicy } from './ClientCredentialsPolicy'
+export { MissingBrokeredServiceErrorCode } from './MissingBrokeredServiceErrorCode'
+export { IMissingServiceDiagnosticsService, MissingServiceAnalysis } from './IMissingServiceDiagnosticsService'
+export { AuthorizationPolicy } from './AuthorizationPolicy'
+export { DefaultAuthorizationService } from './DefaultAuthorizationService'
+export { WellKnownProtectedOperations } from './WellKnownProtectedOperations'
@@ -8,15 +8,38 @@ export { IJsonRpcClientProxy } from './IJsonRpcClientProxy'
 export { IpcRelayServiceBroker } from './IpcRelayServiceBroker'
 export { IRemoteServiceBroker } from './IRemoteServiceBroker'
 export { IServiceBroker, ServiceBrokerEvents } from './IServiceBroker'
-export { RpcMarshalable, MarshaledObjectLifetime } from './jsonRpc/MarshalableObject'
+export { RpcMarshalable, MarshaledObjectLifetime, MarshaledObjectProxy } from './jsonRpc/MarshalableObject'
 export { MultiplexingRelayServiceBroker } from './MultiplexingRelayServiceBroker'
 export { ProtectedOperation } from './ProtectedOperation'
 export { RemoteServiceBroker } from './RemoteServiceBroker'
 export { RemoteServiceConnectionInfo } from './RemoteServiceConnectionInfo'
+export { ServiceActivationFailedError } from './ServiceActivationFailedError'
+export { UnauthorizedAccessError } from './UnauthorizedAccessError'
+export { AuthorizedService, requiresAuthorization } from './RequiresAuthorization'
+export { RemoteRpcError } from './RemoteRpcError'
+export { RemoteInvocationError, RemoteMethodNotFoundError } from './RemoteInvocationError'
+export { ConnectionLostError } from './ConnectionLostError'
 export { ServiceActivationOptions } from './ServiceActivationOptions'
+export { ServiceBrokerAggregator } from './ServiceBrokerAggregator'
+export { ServiceBrokerClient, ServiceBrokerClientEvents, ServiceBrokerClientRental } from './ServiceBrokerClient'
 export { ServiceBrokerClientMetadata } from './ServiceBrokerClientMetadata'
-export { ServiceJsonRpcDescriptor, JsonRpcConnection, ServiceJsonRpcDescriptorOptions, OutgoingMessageFilter, IncomingMessageFilter } from './ServiceJsonRpcDescriptor'
+export {
+	ServiceJsonRpcDescriptor,
+	JsonRpcConnection,
+	ServiceJsonRpcDescriptorOptions,
+	OutgoingMessageFilter,
+	IncomingMessageFilter,
+	JsonRpcConnectionOptions,
+} from './ServiceJsonRpcDescriptor'
 export { ServiceMoniker } from './ServiceMoniker'
 export { ServiceRpcDescriptor, RpcEventServer } from './ServiceRpcDescriptor'
-export { IObserver, Observer } from './jsonRpc/Observer'
+export { IObservable, IObserver, Observable, Observer } from './jsonRpc/Observer'
+export { JsonRpcEnumerable, JsonRpcEnumerableSettings, RpcAsyncEnumerableParameters } from './jsonRpc/AsyncEnumerable'
+export { RpcStream, RpcStreamParameters } from './jsonRpc/RpcStream'
+export { IProgress, Progress, RpcProgressParameters } from './jsonRpc/Progress'
+export { CommonErrorData } from './jsonRpc/CommonErrorData'
+export { JsonRpcErrorCode } from './jsonRpc/JsonRpcErrorCode'
+export { JsonRpcParameterStructure, RpcParameterNames } from './jsonRpc/rpcUtilities'
+export { CommonMethodNameTransforms, MethodNameTransform } from './jsonRpc/CommonMethodNameTransforms'
+export { rpcMethod } from './jsonRpc/RpcMethod'
 export * from './container'
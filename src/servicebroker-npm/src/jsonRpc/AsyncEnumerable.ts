@@ -0,0 +1,331 @@
+import { MessageConnection, ParameterStructures } from 'vscode-jsonrpc'
+
+/** The method that the receiver of an async enumerable invokes to request the next batch of values. Use with {@link EnumeratorArgs}. */
+const nextMethodName = '$/enumerator/next'
+
+/** The method that the receiver of an async enumerable invokes to tell the sender it will not request any more values. Use with {@link EnumeratorArgs}. */
+const abortMethodName = '$/enumerator/abort'
+
+/** The request type to use when sending {@link nextMethodName} requests and {@link abortMethodName} notifications. */
+interface EnumeratorArgs {
+	/** The `token` named parameter (or first positional parameter) is set to the token the sender assigned to the enumerable. */
+	token: number | string
+}
+
+/** The result of a {@link nextMethodName} request. */
+interface EnumeratorNextResult<T> {
+	/** The next batch of values. */
+	values: T[]
+	/** A value indicating whether the sequence has ended, in which case the receiver must not request more values. */
+	finished: boolean
+}
+
+/**
+ * Settings that control how an async iterable is transmitted over JSON-RPC.
+ */
+export interface JsonRpcEnumerableSettings {
+	/**
+	 * The number of values to read from the iterable and transmit along with the enumerable itself,
+	 * saving the receiver a round trip for the first batch.
+	 * The default is 0.
+	 */
+	prefetch?: number
+
+	/**
+	 * The minimum number of values to transmit in response to each request for more values, unless the sequence ends first.
+	 * The default is 1.
+	 */
+	minBatchSize?: number
+}
+
+export namespace JsonRpcEnumerable {
+	/**
+	 * Associates settings with an async iterable that control how it is transmitted when it is passed as an argument or returned from an RPC method.
+	 * @param iterable The async iterable.
+	 * @param settings The settings to apply.
+	 * @returns The same async iterable that was passed in.
+	 */
+	export function withSettings<T extends AsyncIterable<unknown>>(iterable: T, settings: JsonRpcEnumerableSettings): T {
+		enumerableSettings.set(iterable, settings)
+		return iterable
+	}
+
+	/**
+	 * Gets an async iterable received as a return value from a proxy.
+	 * @param proxy The proxy that returned the value.
+	 * @param value The value that was returned. May be `null` when the remote party returned a `null` enumerable.
+	 * An async iterable, as returned by a service that is not behind a proxy, is returned as is.
+	 * @returns The async iterable, which may only be enumerated once when it was received over RPC.
+	 */
+	export function accept<T>(proxy: object, value: unknown): AsyncIterable<T> | null {
+		if (IJsonRpcAsyncEnumerable.isAsyncIterable(value)) {
+			return value as AsyncIterable<T>
+		}
+
+		const connection = (proxy as { _jsonRpc?: MessageConnection })._jsonRpc
+		if (!connection) {
+			throw new Error('The value is not a JSON-RPC proxy.')
+		}
+
+		return IJsonRpcAsyncEnumerable.fromValue<T>(value, connection)
+	}
+}
+
+/**
+ * An interface to be implemented by RPC targets that accept async iterables as arguments.
+ * Since the serialized form of an async iterable is indistinguishable from any other object, the target must declare which parameters are async iterables.
+ */
+export interface RpcAsyncEnumerableParameters {
+	/**
+	 * The 0-based indexes of the parameters that are async iterables, keyed by method name.
+	 */
+	readonly _jsonRpcAsyncEnumerableParameters: { readonly [methodName: string]: readonly number[] }
+}
+
+/** The settings associated with async iterables by {@link JsonRpcEnumerable.withSettings}. */
+const enumerableSettings = new WeakMap<AsyncIterable<unknown>, JsonRpcEnumerableSettings>()
+
+/** The serialized forms produced by {@link IJsonRpcAsyncEnumerable.wrap}, which hold resources until the receiver is done with them. */
+const wrappedEnumerables = new WeakSet<IJsonRpcAsyncEnumerable>()
+
+interface MessageConnectionWithEnumeratorSupport extends MessageConnection {
+	_enumeratorTracker?: {
+		counter: number
+		generatorsByToken: {
+			[key: string]: Generator
+		}
+	}
+}
+
+/** The state of an async iterable that the remote party may request values from. */
+interface Generator {
+	iterator: AsyncIterator<unknown>
+	minBatchSize: number
+	/** The last request for values, so that requests are served one at a time. */
+	pending: Promise<unknown>
+}
+
+function getEnumeratorTracker(connection: MessageConnection) {
+	const connectionWithTracker = connection as MessageConnectionWithEnumeratorSupport
+	connectionWithTracker._enumeratorTracker ??= { counter: 0, generatorsByToken: {} }
+	return connectionWithTracker._enumeratorTracker
+}
+
+function getToken(params: EnumeratorArgs | any[]): number | string {
+	return Array.isArray(params) ? params[0] : params.token
+}
+
+/**
+ * Releases a generator, giving the async iterable an opportunity to clean up.
+ */
+function releaseGenerator(connection: MessageConnection, token: number | string) {
+	const tracker = getEnumeratorTracker(connection)
+	const generator = tracker.generatorsByToken[token]
+	if (generator) {
+		delete tracker.generatorsByToken[token]
+		generator.pending
+			.catch(() => {})
+			.then(() => generator.iterator.return?.())
+			.catch(() => {})
+	}
+}
+
+export function registerEnumeratorCallbacks(connection: MessageConnection) {
+	connection.onRequest(nextMethodName, async (params: EnumeratorArgs | any[]): Promise<EnumeratorNextResult<unknown>> => {
+		const token = getToken(params)
+		const generator = getEnumeratorTracker(connection).generatorsByToken[token]
+		if (!generator) {
+			throw new Error(`Unrecognized enumerator token ${token}.`)
+		}
+
+		const result = generator.pending.catch(() => {}).then(() => readBatch(generator.iterator, generator.minBatchSize))
+		generator.pending = result
+		try {
+			const batch = await result
+			if (batch.finished) {
+				delete getEnumeratorTracker(connection).generatorsByToken[token]
+			}
+
+			return batch
+		} catch (err) {
+			// The iterable faulted, so it cannot produce any more values.
+			delete getEnumeratorTracker(connection).generatorsByToken[token]
+			throw err
+		}
+	})
+
+	const onAbort = (params: EnumeratorArgs | any[]) => releaseGenerator(connection, getToken(params))
+	connection.onRequest(abortMethodName, onAbort)
+	connection.onNotification(abortMethodName, onAbort)
+
+	// Release any async iterables the remote party never finished enumerating.
+	connection.onClose(() => {
+		for (const token of Object.keys(getEnumeratorTracker(connection).generatorsByToken)) {
+			releaseGenerator(connection, token)
+		}
+	})
+}
+
+async function readBatch<T>(iterator: AsyncIterator<T>, minBatchSize: number): Promise<EnumeratorNextResult<T>> {
+	const values: T[] = []
+	while (values.length < minBatchSize) {
+		const result = await iterator.next()
+		if (result.done) {
+			return { values, finished: true }
+		}
+
+		values.push(result.value)
+	}
+
+	return { values, finished: false }
+}
+
+/**
+ * Describes the JSON-RPC serialized form of an async iterable, as specified by https://github.com/microsoft/vs-streamjsonrpc/blob/main/doc/asyncenumerable.md
+ */
+export interface IJsonRpcAsyncEnumerable<T = unknown> {
+	/**
+	 * The token the receiver uses to request more values.
+	 * It is omitted when the sequence ended during prefetch, in which case {@link values} contains the entire sequence.
+	 */
+	token?: number | string
+
+	/**
+	 * The values that were prefetched by the sender.
+	 */
+	values?: T[]
+}
+
+export namespace IJsonRpcAsyncEnumerable {
+	/**
+	 * Tests whether a given value is an async iterable that should be marshaled as an enumerable.
+	 * @param value the value to be tested.
+	 */
+	export function isAsyncIterable(value: any): value is AsyncIterable<unknown> {
+		return typeof value?.[Symbol.asyncIterator] === 'function'
+	}
+
+	/**
+	 * Tests whether a given value is the serialized form of an async iterable, as produced by {@link wrap}.
+	 * @param value the value to be tested.
+	 */
+	export function isWrapped(value: any): value is IJsonRpcAsyncEnumerable {
+		return typeof value === 'object' && value !== null && wrappedEnumerables.has(value)
+	}
+
+	/**
+	 * Creates the JSON-RPC serializable form of an async iterable, which the receiver may request values from.
+	 * @param iterable The async iterable to transmit.
+	 * @param connection The connection that the iterable will be transmitted over.
+	 * @returns The serializable form, which is only produced asynchronously when values must be prefetched.
+	 */
+	export function wrap(iterable: AsyncIterable<unknown>, connection: MessageConnection): IJsonRpcAsyncEnumerable | Promise<IJsonRpcAsyncEnumerable> {
+		const settings = enumerableSettings.get(iterable) ?? {}
+		const iterator = iterable[Symbol.asyncIterator]()
+		return settings.prefetch ? prefetchAndTrack(iterator, settings, connection) : remember(track(iterator, settings, connection))
+	}
+
+	async function prefetchAndTrack(iterator: AsyncIterator<unknown>, settings: JsonRpcEnumerableSettings, connection: MessageConnection) {
+		const prefetched = await readBatch(iterator, settings.prefetch!)
+		if (prefetched.finished) {
+			// The whole sequence fits in the prefetched values, so the receiver has no need to call back.
+			return remember({ values: prefetched.values })
+		}
+
+		return remember({ ...track(iterator, settings, connection), values: prefetched.values })
+	}
+
+	function remember(value: IJsonRpcAsyncEnumerable): IJsonRpcAsyncEnumerable {
+		wrappedEnumerables.add(value)
+		return value
+	}
+
+	function track(iterator: AsyncIterator<unknown>, settings: JsonRpcEnumerableSettings, connection: MessageConnection): IJsonRpcAsyncEnumerable {
+		const tracker = getEnumeratorTracker(connection)
+		const token = ++tracker.counter
+		tracker.generatorsByToken[token] = { iterator, minBatchSize: Math.max(settings.minBatchSize ?? 1, 1), pending: Promise.resolve() }
+		return { token }
+	}
+
+	/**
+	 * Releases the async iterable behind a serialized enumerable that the receiver will never enumerate, such as when the call that carried it failed.
+	 * @param value The value returned from {@link wrap}.
+	 * @param connection The connection the enumerable was created for.
+	 */
+	export function cancelWrap(value: IJsonRpcAsyncEnumerable, connection: MessageConnection) {
+		if (value.token !== undefined) {
+			releaseGenerator(connection, value.token)
+		}
+	}
+
+	/**
+	 * Produces an async iterable for a serialized enumerable received over JSON-RPC, where the receiver expects one.
+	 * The result may only be enumerated once.
+	 * @param value The value received over JSON-RPC.
+	 * @param connection The connection the value was received over.
+	 * @returns The async iterable, or `null` if the value was `null`.
+	 */
+	export function fromValue<T>(value: unknown, connection: MessageConnection): AsyncIterable<T> | null {
+		if (value === null || value === undefined) {
+			return null
+		}
+
+		if (!isSerializedForm(value)) {
+			throw new Error('The value is not a serialized async enumerable.')
+		}
+
+		return new AsyncEnumerableProxy<T>(value as IJsonRpcAsyncEnumerable<T>, connection)
+	}
+
+	function isSerializedForm(value: any): value is IJsonRpcAsyncEnumerable {
+		return (
+			typeof value === 'object' &&
+			!Array.isArray(value) &&
+			(value.token !== undefined || value.values !== undefined) &&
+			(value.token === undefined || typeof value.token === 'number' || typeof value.token === 'string') &&
+			(value.values === undefined || Array.isArray(value.values))
+		)
+	}
+}
+
+/**
+ * An async iterable that requests values from the remote party that owns the actual iterable.
+ */
+class AsyncEnumerableProxy<T> implements AsyncIterable<T> {
+	private enumerated = false
+
+	constructor(
+		private readonly value: IJsonRpcAsyncEnumerable<T>,
+		private readonly connection: MessageConnection
+	) {}
+
+	async *[Symbol.asyncIterator](): AsyncIterator<T> {
+		if (this.enumerated) {
+			throw new Error('This async enumerable was received over RPC and may only be enumerated once.')
+		}
+
+		this.enumerated = true
+		const token = this.value.token
+		let finished = token === undefined
+		try {
+			yield* this.value.values ?? []
+			while (!finished) {
+				const args: EnumeratorArgs = { token: token! }
+				const result = await this.connection.sendRequest<EnumeratorNextResult<T>>(nextMethodName, ParameterStructures.byName, args)
+				finished = result.finished
+				yield* result.values ?? []
+			}
+		} finally {
+			if (!finished) {
+				// The enumeration was abandoned or failed, so let the sender release its resources.
+				finished = true
+				const args: EnumeratorArgs = { token: token! }
+				try {
+					await this.connection.sendNotification(abortMethodName, ParameterStructures.byName, args)
+				} catch {
+					// The connection is gone, and the sender's resources with it.
+				}
+			}
+		}
+	}
+}
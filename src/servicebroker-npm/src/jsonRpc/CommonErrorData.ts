@@ -0,0 +1,85 @@
+/**
+ * The `error.data` shape that StreamJsonRpc uses to describe an error thrown by an RPC server method.
+ */
+export interface CommonErrorData {
+	/**
+	 * The full name of the type of the error.
+	 */
+	type?: string
+
+	/**
+	 * The error message.
+	 */
+	message?: string
+
+	/**
+	 * The stack trace of the error.
+	 */
+	stack?: string
+
+	/**
+	 * The HResult of the error.
+	 */
+	code?: number
+
+	/**
+	 * The error that led to this one, if any.
+	 */
+	inner?: CommonErrorData
+}
+
+export namespace CommonErrorData {
+	/**
+	 * The HResult .NET assigns to exceptions that do not specify their own (COR_E_EXCEPTION).
+	 */
+	export const defaultHResult = -2146233088
+
+	/**
+	 * Creates a {@link CommonErrorData} that describes a given error.
+	 * @param error The error to describe.
+	 * @param typeName The type name to report for the error. When omitted, the error's `name` is used.
+	 */
+	export function create(error: unknown, typeName?: string): CommonErrorData {
+		if (error instanceof Error) {
+			return {
+				type: typeName ?? error.name,
+				message: error.message,
+				stack: error.stack,
+				code: defaultHResult,
+				inner: error.cause === undefined ? undefined : create(error.cause),
+			}
+		}
+
+		return { type: typeName, message: String(error), code: defaultHResult }
+	}
+
+	/**
+	 * Recreates an error from its description, including the chain of inner errors.
+	 * The error's `name` is set to the type name of the original error.
+	 * @param data The description of the error.
+	 */
+	export function toError(data: CommonErrorData): Error {
+		const error = new Error(data.message, data.inner ? { cause: toError(data.inner) } : undefined)
+		if (data.type) {
+			error.name = data.type
+		}
+
+		if (data.stack) {
+			error.stack = data.stack
+		}
+
+		return error
+	}
+
+	/**
+	 * Tests whether a given value looks like a {@link CommonErrorData}.
+	 * @param value The value to test.
+	 */
+	export function is(value: unknown): value is CommonErrorData {
+		return (
+			typeof value === 'object' &&
+			value !== null &&
+			(typeof (value as CommonErrorData).type === 'string' || typeof (value as CommonErrorData).message === 'string')
+		)
+	}
+}
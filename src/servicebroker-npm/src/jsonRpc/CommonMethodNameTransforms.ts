@@ -0,0 +1,41 @@
+/**
+ * Transforms the name of a method or event as it is known locally into the name it is known by over JSON-RPC.
+ */
+export type MethodNameTransform = (name: string) => string
+
+/**
+ * Common transforms for the names of methods and events, as StreamJsonRpc offers for .NET.
+ * .NET services typically expose PascalCase methods with an `Async` suffix, while TypeScript interfaces use camelCase.
+ */
+export namespace CommonMethodNameTransforms {
+	/**
+	 * Converts the first letter of a name to lowercase, as is the convention for JavaScript and TypeScript.
+	 */
+	export const camelCase: MethodNameTransform = name => name.charAt(0).toLowerCase() + name.substring(1)
+
+	/**
+	 * Converts the first letter of a name to uppercase, as is the convention for .NET.
+	 */
+	export const pascalCase: MethodNameTransform = name => name.charAt(0).toUpperCase() + name.substring(1)
+
+	/**
+	 * Appends the `Async` suffix to a name, unless it already ends with it.
+	 */
+	export const asyncSuffix: MethodNameTransform = name => (name.endsWith('Async') ? name : `${name}Async`)
+
+	/**
+	 * Creates a transform that prepends a prefix to each name.
+	 * @param prefix The prefix to prepend.
+	 */
+	export function prepend(prefix: string): MethodNameTransform {
+		return name => `${prefix}${name}`
+	}
+
+	/**
+	 * Creates a transform that applies several transforms in order.
+	 * @param transforms The transforms to apply.
+	 */
+	export function combine(...transforms: MethodNameTransform[]): MethodNameTransform {
+		return name => transforms.reduce((result, transform) => transform(result), name)
+	}
+}
@@ -0,0 +1,55 @@
+/**
+ * Error codes used in JSON-RPC error responses, as defined by the JSON-RPC 2.0 spec and extended by StreamJsonRpc.
+ */
+export enum JsonRpcErrorCode {
+	/**
+	 * Indicates the RPC call was made but the target method threw an error.
+	 * The error data typically carries a {@link CommonErrorData} that describes the error.
+	 */
+	invocationError = -32000,
+
+	/**
+	 * Indicates that a request was made to a marshaled object that has been released or was never known.
+	 */
+	noMarshaledObjectFound = -32001,
+
+	/**
+	 * Indicates the RPC call was made and the target method succeeded, but its result could not be serialized.
+	 */
+	responseSerializationFailure = -32003,
+
+	/**
+	 * Indicates the RPC call was made but the target method threw an error, and the error data carries the serialized error itself.
+	 */
+	invocationErrorWithException = -32004,
+
+	/**
+	 * Indicates that the request was canceled by the client before the server completed it.
+	 */
+	requestCanceled = -32800,
+
+	/**
+	 * Indicates the arguments given to the method do not match the parameters it accepts.
+	 */
+	invalidParams = -32602,
+
+	/**
+	 * Indicates the method requested does not exist or is not available.
+	 */
+	methodNotFound = -32601,
+
+	/**
+	 * Indicates the request is not a valid JSON-RPC request object.
+	 */
+	invalidRequest = -32600,
+
+	/**
+	 * Indicates an internal JSON-RPC error.
+	 */
+	internalError = -32603,
+
+	/**
+	 * Indicates that invalid JSON was received.
+	 */
+	parseError = -32700,
+}
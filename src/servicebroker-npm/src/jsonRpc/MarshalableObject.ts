@@ -56,7 +56,17 @@ function constructProxyMethodName(handle: number, method: string, optionalInterf
  */
 export interface RpcMarshalable {
 	readonly _jsonRpcMarshalableLifetime: MarshaledObjectLifetime
+
+	/**
+	 * The codes of the optional interfaces that this object implements, in addition to its base interface.
+	 */
 	readonly _jsonRpcOptionalInterfaces?: number[]
+
+	/**
+	 * The names of the methods that belong to each optional interface, keyed by the interface code.
+	 * The receiver invokes these methods by their interface-qualified names when it uses a view of the proxy obtained from {@link MarshaledObjectProxy.asOptionalInterface}.
+	 */
+	readonly _jsonRpcOptionalInterfaceMethods?: { readonly [optionalInterface: number]: readonly string[] }
 }
 
 export namespace RpcMarshalable {
@@ -119,6 +129,11 @@ interface MessageConnectionWithMarshaldObjectSupport extends MessageConnection {
 
 export interface MarshaledObjectProxy extends IDisposable {
 	_jsonrpcMarshaledHandle: number
+
+	/**
+	 * The codes of the optional interfaces that the remote object declared it implements.
+	 */
+	_jsonRpcOptionalInterfaces?: readonly number[]
 }
 
 export namespace MarshaledObjectProxy {
@@ -126,10 +141,48 @@ export namespace MarshaledObjectProxy {
 		const valueCandidate = value as MarshaledObjectProxy | undefined
 		return typeof valueCandidate?._jsonrpcMarshaledHandle === 'number'
 	}
+
+	/**
+	 * Gets a view of a marshaled object proxy that invokes methods on one of the optional interfaces implemented by the remote object.
+	 * @param proxy The proxy to a marshaled object.
+	 * @param optionalInterface The code of the optional interface.
+	 * @returns A proxy that invokes methods of the optional interface, or `null` if the remote object does not implement that interface.
+	 * Disposing of the view disposes of the underlying proxy.
+	 */
+	export function asOptionalInterface<T extends object>(proxy: MarshaledObjectProxy, optionalInterface: number): (T & MarshaledObjectProxy) | null {
+		const target = marshaledObjectProxyTargets.get(proxy)
+		if (!target) {
+			throw new Error('The value is not a proxy to a marshaled object.')
+		}
+
+		if (!target.optionalInterfaces?.includes(optionalInterface)) {
+			return null
+		}
+
+		// The view shares the state of the original proxy (e.g. whether it has been released) through the prototype chain.
+		const viewTarget: MarshaledObjectProxyTarget = Object.create(target)
+		viewTarget.optionalInterface = optionalInterface
+		return createMarshaledObjectProxy<T>(viewTarget)
+	}
+}
+
+/** The targets behind each marshaled object proxy, so that views of other interfaces on them can be created. */
+const marshaledObjectProxyTargets = new WeakMap<object, MarshaledObjectProxyTarget>()
+
+function createMarshaledObjectProxy<T>(target: MarshaledObjectProxyTarget): T & MarshaledObjectProxy {
+	const proxy = new Proxy<MarshaledObjectProxyTarget>(target, rpcProxy)
+	marshaledObjectProxyTargets.set(proxy, target)
+	return proxy as unknown as T & MarshaledObjectProxy
 }
 
 interface MarshaledObjectProxyTarget extends MarshaledObjectProxy {
 	messageConnection: MessageConnection
+	/** The optional interfaces that the remote object implements. */
+	optionalInterfaces?: readonly number[]
+	/** The optional interface whose methods this proxy invokes, if not the base interface. */
+	optionalInterface?: number
+	/** Set when a call-scoped proxy may no longer be invoked because its call has completed. */
+	isReleased?: boolean
 }
 
 const rpcProxy = {
@@ -142,6 +195,9 @@ const rpcProxy = {
 			case '_jsonrpcMarshaledHandle':
 				return target._jsonrpcMarshaledHandle
 
+			case '_jsonRpcOptionalInterfaces':
+				return target.optionalInterfaces
+
 			case 'then':
 				// When the proxy is returned from async methods,
 				// promises look at the return value to see if it too is a promise.
@@ -153,7 +209,11 @@ const rpcProxy = {
 
 			default:
 				return function () {
-					const rpcMethod = constructProxyMethodName(target._jsonrpcMarshaledHandle, property.toString())
+					if (target.isReleased) {
+						return Promise.reject(new Error('This marshaled object was scoped to an RPC call that has since completed.'))
+					}
+
+					const rpcMethod = constructProxyMethodName(target._jsonrpcMarshaledHandle, property.toString(), target.optionalInterface)
 					return invokeRpc(rpcMethod, arguments, target.messageConnection)
 				}
 		}
@@ -191,25 +251,46 @@ export namespace IJsonRpcMarshaledObject {
 				handle: value._jsonrpcMarshaledHandle,
 			}
 		} else {
-			if (value._jsonRpcMarshalableLifetime === 'call') {
-				throw new Error('Receiving marshaled objects scoped to the lifetime of a single RPC request is not yet supported.')
-			}
-
-			const alreadyMarshaled = connectionMarshalingTracker.ownTrackedObjectHandles.has(value)
+			// Call-scoped objects get a new handle each time they are marshaled, since each handle's lifetime ends with its own call.
+			const isCallScoped = value._jsonRpcMarshalableLifetime === 'call'
+			const alreadyMarshaled = !isCallScoped && connectionMarshalingTracker.ownTrackedObjectHandles.has(value)
 			const handle: number = alreadyMarshaled ? connectionMarshalingTracker.ownTrackedObjectHandles.get(value)! : ++connectionMarshalingTracker.counter
 			if (!alreadyMarshaled) {
 				// Associate this object and this message connection tuple with the handle so that if we ever wrap it again, we'll use the same handle.
-				connectionMarshalingTracker.ownTrackedObjectHandles.set(value, handle)
+				if (!isCallScoped) {
+					connectionMarshalingTracker.ownTrackedObjectHandles.set(value, handle)
+				}
 
 				// Register for requests on the connection to invoke the local object when the receiving side sends requests.
-				const registration = registerInstanceMethodsAsRpcTargets(value, jsonConnection, methodName => constructProxyMethodName(handle, methodName))
+				const registrations = [
+					registerInstanceMethodsAsRpcTargets(value, jsonConnection, {
+						rpcMethodNameTransform: methodName => constructProxyMethodName(handle, methodName),
+					}),
+				]
+				for (const optionalInterface of value._jsonRpcOptionalInterfaces ?? []) {
+					const methodNames = value._jsonRpcOptionalInterfaceMethods?.[optionalInterface]
+					if (methodNames) {
+						registrations.push(
+							registerInstanceMethodsAsRpcTargets(value, jsonConnection, {
+								rpcMethodNameTransform: methodName => constructProxyMethodName(handle, methodName, optionalInterface),
+								methodNames,
+							})
+						)
+					}
+				}
 
-				// Arrange to release the object and registrations when the remote side sends the release notification.
+				// Arrange to release the object and registrations when the remote side sends the release notification,
+				// or for call-scoped objects, when the call completes.
 				connectionMarshalingTracker.ownByHandle[handle] = {
 					target: value,
 					dispose: () => {
-						registration.dispose()
+						registrations.forEach(r => r.dispose())
 						delete connectionMarshalingTracker.ownByHandle[handle]
+						if (isCallScoped) {
+							// The sender retains ownership of call-scoped objects, so we don't dispose of them.
+							return
+						}
+
 						connectionMarshalingTracker.ownTrackedObjectHandles.delete(value)
 						if ('dispose' in value && typeof value.dispose === 'function') {
 							value.dispose()
@@ -227,6 +308,14 @@ export namespace IJsonRpcMarshaledObject {
 		}
 	}
 
+	/**
+	 * Tests whether a given value is a real object marshaled with a lifetime scoped to the call that carries it.
+	 * @param value the value to be tested.
+	 */
+	export function isCallScoped(value: any): value is IJsonRpcMarshaledObject {
+		return is(value) && value.__jsonrpc_marshaled === JsonRpcMarshaled.realObject && value.lifetime === 'call'
+	}
+
 	export function cancelWrap(value: IJsonRpcMarshaledObject, jsonConnection: MessageConnection) {
 		const connectionMarshalingTracker = getJsonConnectionMarshalingTracker(jsonConnection)
 		const tracker = connectionMarshalingTracker.ownByHandle[value.handle]
@@ -239,13 +328,22 @@ export namespace IJsonRpcMarshaledObject {
 	 * @returns An RPC proxy. This should be disposed of when done to release resources held by the remote party.
 	 */
 	export function unwrap<T>(value: IJsonRpcMarshaledObject, jsonConnection: MessageConnection): T {
-		if (value.lifetime === 'call') {
-			throw new Error('Receiving marshaled objects scoped to the lifetime of a single RPC request is not yet supported.')
-		}
-
 		const connectionMarshalingTracker = getJsonConnectionMarshalingTracker(jsonConnection)
 		switch (value.__jsonrpc_marshaled) {
 			case JsonRpcMarshaled.realObject:
+				if (value.lifetime === 'call') {
+					// Call-scoped objects are released implicitly when the call completes, so we neither track them nor send release notifications.
+					const target: MarshaledObjectProxyTarget = {
+						messageConnection: jsonConnection,
+						_jsonrpcMarshaledHandle: value.handle,
+						optionalInterfaces: value.optionalInterfaces,
+						dispose: () => {
+							target.isReleased = true
+						},
+					}
+					return createMarshaledObjectProxy<T>(target)
+				}
+
 				let proxy = connectionMarshalingTracker.theirsByHandle[value.handle]?.proxy
 
 				if (!proxy) {
@@ -253,6 +351,7 @@ export namespace IJsonRpcMarshaledObject {
 					const target: MarshaledObjectProxyTarget = {
 						messageConnection: jsonConnection,
 						_jsonrpcMarshaledHandle: value.handle,
+						optionalInterfaces: value.optionalInterfaces,
 						dispose: () => {
 							if (connectionMarshalingTracker.theirsByHandle[value.handle]) {
 								delete connectionMarshalingTracker.theirsByHandle[value.handle]
@@ -266,7 +365,7 @@ export namespace IJsonRpcMarshaledObject {
 							}
 						},
 					}
-					proxy = new Proxy<MarshaledObjectProxyTarget>(target, rpcProxy)
+					proxy = createMarshaledObjectProxy(target)
 					connectionMarshalingTracker.theirsByHandle[value.handle] = {
 						proxy,
 						dispose: () => {
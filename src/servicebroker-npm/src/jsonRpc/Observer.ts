@@ -1,4 +1,5 @@
-import { MarshaledObjectLifetime, RpcMarshalable } from './MarshalableObject'
+import { IDisposable } from '../IDisposable'
+import { MarshaledObjectLifetime, MarshaledObjectProxy, RpcMarshalable } from './MarshalableObject'
 
 /**
  * An observer of some value production.
@@ -22,13 +23,17 @@ export interface IObserver<T> {
 	onError(reason: any): void
 }
 
+/**
+ * A source of values that observers may subscribe to.
+ */
 export interface IObservable<T> {
 	/**
 	 * Adds an observer to an observable object.
 	 * @param observer The observer to receive values.
-	 * @returns A function to call to cancel the subscription.
+	 * @returns The subscription, which should be disposed of to cancel the subscription.
+	 * When the observable is a proxy to a remote object, the subscription is a proxy that is delivered asynchronously.
 	 */
-	subscribe(observer: IObserver<T>): () => void
+	subscribe(observer: IObserver<T>): IDisposable | Promise<IDisposable>
 }
 
 export class Observer<T> implements IObserver<T>, RpcMarshalable {
@@ -62,3 +67,86 @@ export class Observer<T> implements IObserver<T>, RpcMarshalable {
 		}
 	}
 }
+
+/**
+ * An {@link IObservable} that may be marshaled across RPC, so that a remote party can subscribe to it.
+ * The wire format is compatible with StreamJsonRpc's support for `IObservable<T>`.
+ */
+export class Observable<T> implements IObservable<T>, RpcMarshalable {
+	readonly _jsonRpcMarshalableLifetime: MarshaledObjectLifetime = 'explicit'
+
+	/**
+	 * Initializes a new instance of the {@link Observable} class.
+	 * @param subscribeCore A function that adds an observer to the underlying source and returns a function that removes it.
+	 */
+	constructor(private readonly subscribeCore: (observer: IObserver<T>) => () => void) {}
+
+	subscribe(observer: IObserver<T>): IDisposable & RpcMarshalable {
+		return new Subscription(observer, this.subscribeCore)
+	}
+}
+
+/**
+ * A subscription of one observer to an {@link Observable}, which a remote subscriber may dispose of.
+ */
+class Subscription<T> implements IDisposable, RpcMarshalable {
+	readonly _jsonRpcMarshalableLifetime: MarshaledObjectLifetime = 'explicit'
+	private unsubscribe?: () => void
+	private isDisposed = false
+
+	constructor(
+		private readonly observer: IObserver<T>,
+		subscribeCore: (observer: IObserver<T>) => () => void
+	) {
+		const unsubscribe = subscribeCore({
+			onNext: value => {
+				if (!this.isDisposed) {
+					Subscription.forward(this.observer.onNext(value))
+				}
+			},
+			onCompleted: () => {
+				if (!this.isDisposed) {
+					Subscription.forward(this.observer.onCompleted())
+					this.dispose()
+				}
+			},
+			onError: reason => {
+				if (!this.isDisposed) {
+					Subscription.forward(this.observer.onError(reason))
+					this.dispose()
+				}
+			},
+		})
+
+		// The sequence may have ended during subscription.
+		if (this.isDisposed) {
+			unsubscribe()
+		} else {
+			this.unsubscribe = unsubscribe
+		}
+	}
+
+	/**
+	 * Observes the result of a notification to the observer.
+	 * A remote observer returns a promise, which rejects if the connection is lost. That should not fault the observable.
+	 */
+	private static forward(result: unknown) {
+		if (result instanceof Promise) {
+			result.catch(() => {})
+		}
+	}
+
+	dispose(): void {
+		if (this.isDisposed) {
+			return
+		}
+
+		this.isDisposed = true
+		this.unsubscribe?.()
+
+		// Release the remote observer, since it will not receive any more notifications.
+		if (MarshaledObjectProxy.is(this.observer)) {
+			this.observer.dispose()
+		}
+	}
+}
@@ -0,0 +1,110 @@
+import { Disposable, MessageConnection, ProgressType } from 'vscode-jsonrpc'
+
+/**
+ * A receiver of progress updates.
+ */
+export interface IProgress<T> {
+	/**
+	 * Reports a progress update.
+	 * @param value The value of the updated progress.
+	 */
+	report(value: T): void
+}
+
+/**
+ * An {@link IProgress} that invokes a callback for each progress update.
+ * It may be passed as an argument to an RPC method, in which case it is transmitted as a progress token
+ * and the remote party's updates arrive as `$/progress` notifications, as StreamJsonRpc does for `IProgress<T>`.
+ * Updates are only delivered until the call completes.
+ */
+export class Progress<T> implements IProgress<T> {
+	/**
+	 * Initializes a new instance of the {@link Progress} class.
+	 * @param handler The callback to invoke with each progress update.
+	 */
+	constructor(private readonly handler: (value: T) => void) {}
+
+	report(value: T): void {
+		this.handler(value)
+	}
+}
+
+/**
+ * An interface to be implemented by RPC targets that accept {@link IProgress} arguments.
+ * Since a progress token is indistinguishable from any other number, the target must declare which parameters receive progress.
+ */
+export interface RpcProgressParameters {
+	/**
+	 * The 0-based indexes of the parameters that receive an {@link IProgress}, keyed by method name.
+	 */
+	readonly _jsonRpcProgressParameters: { readonly [methodName: string]: readonly number[] }
+}
+
+/** The type of the `$/progress` notifications, as shared with the Language Server Protocol. */
+const progressType = new ProgressType<unknown>()
+
+interface MessageConnectionWithProgressSupport extends MessageConnection {
+	_progressTracker?: {
+		counter: number
+		handlersByToken: {
+			[key: number]: Disposable
+		}
+	}
+}
+
+function getProgressTracker(connection: MessageConnection) {
+	const connectionWithTracker = connection as MessageConnectionWithProgressSupport
+	connectionWithTracker._progressTracker ??= { counter: 0, handlersByToken: {} }
+	return connectionWithTracker._progressTracker
+}
+
+export namespace JsonRpcProgress {
+	/**
+	 * Tests whether a given value should be transmitted as a progress token.
+	 * @param value the value to be tested.
+	 */
+	export function is(value: any): value is Progress<unknown> {
+		return value instanceof Progress
+	}
+
+	/**
+	 * Assigns a token to a {@link Progress} and routes progress notifications carrying that token to it.
+	 * @param progress The progress to receive updates.
+	 * @param connection The connection over which the token will be sent.
+	 * @returns The progress token.
+	 */
+	export function toToken(progress: Progress<unknown>, connection: MessageConnection): number {
+		const tracker = getProgressTracker(connection)
+		const token = ++tracker.counter
+		tracker.handlersByToken[token] = connection.onProgress(progressType, token, value => progress.report(value))
+		return token
+	}
+
+	/**
+	 * Stops routing progress notifications to the {@link Progress} that was assigned a token, once the call that carried it has completed.
+	 * @param token The progress token.
+	 * @param connection The connection over which the token was sent.
+	 */
+	export function release(token: number, connection: MessageConnection) {
+		const tracker = getProgressTracker(connection)
+		tracker.handlersByToken[token]?.dispose()
+		delete tracker.handlersByToken[token]
+	}
+
+	/**
+	 * Creates an {@link IProgress} that sends its updates to the remote party that sent a progress token.
+	 * @param token The progress token that was received.
+	 * @param connection The connection over which the token was received.
+	 * @returns The progress, or `null` if the token was `null`.
+	 */
+	export function fromToken<T>(token: number | string | null | undefined, connection: MessageConnection): Progress<T> | null {
+		if (token === null || token === undefined) {
+			return null
+		}
+
+		return new Progress<T>(value => {
+			// Progress is reported without waiting, and the remote party may have stopped listening.
+			connection.sendProgress(progressType, token, value).catch(() => {})
+		})
+	}
+}
@@ -0,0 +1,76 @@
+/** The methods that have been marked with {@link rpcMethod}. */
+const rpcMethods = new WeakSet<Function>()
+
+/** The methods that decorators replaced with wrappers, keyed by their wrappers. */
+const wrappedMethods = new WeakMap<Function, Function>()
+
+/**
+ * A decorator that exposes a method of an RPC target to remote parties.
+ * It may also be applied to a field that is initialized with a function, such as an arrow function.
+ * Once any method of a target is exposed this way, its other methods are no longer remotely callable.
+ * A method that overrides an exposed method must be decorated as well to remain exposed.
+ * @example
+ * class Calculator {
+ *   @rpcMethod
+ *   add(a: number, b: number) {
+ *     return a + b
+ *   }
+ * }
+ */
+export function rpcMethod<This, Args extends any[], Return>(
+	method: (this: This, ...args: Args) => Return,
+	context: ClassMethodDecoratorContext<This, (this: This, ...args: Args) => Return>
+): void
+export function rpcMethod<This, Value extends Function>(field: undefined, context: ClassFieldDecoratorContext<This, Value>): (initialValue: Value) => Value
+export function rpcMethod(
+	value: Function | undefined,
+	context: ClassMethodDecoratorContext | ClassFieldDecoratorContext
+): ((initialValue: Function) => Function) | void {
+	if (context.private || context.static) {
+		throw new Error('Only public instance methods may be exposed to RPC.')
+	}
+
+	if (context.kind === 'field') {
+		return initialValue => {
+			rpcMethods.add(initialValue)
+			return initialValue
+		}
+	}
+
+	rpcMethods.add(value!)
+}
+
+/**
+ * Tests whether a method was marked with the {@link rpcMethod} decorator.
+ * @param method The method to be tested.
+ */
+export function isRpcMethod(method: unknown): boolean {
+	return typeof method === 'function' && rpcMethods.has(method)
+}
+
+/**
+ * Records that a decorator replaced a method with a wrapper that invokes it.
+ * The wrapper is exposed to RPC if the method was marked with {@link rpcMethod}, whichever decorator is applied first,
+ * and named arguments are matched to the parameters of the method rather than those of the wrapper.
+ * @param method The method that was replaced.
+ * @param wrapper The function that replaces the method.
+ */
+export function recordMethodWrapper(method: Function, wrapper: Function): void {
+	wrappedMethods.set(wrapper, method)
+	if (rpcMethods.has(method)) {
+		rpcMethods.add(wrapper)
+	}
+}
+
+/**
+ * Gets the method that ultimately runs when a function is invoked, following the wrappers recorded by {@link recordMethodWrapper}.
+ * @param method The method, or a wrapper of it.
+ */
+export function unwrapMethod(method: Function): Function {
+	let result = method
+	for (let wrapped = wrappedMethods.get(result); wrapped; wrapped = wrappedMethods.get(result)) {
+		result = wrapped
+	}
+
+	return result
+}
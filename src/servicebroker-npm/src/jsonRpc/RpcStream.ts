@@ -0,0 +1,122 @@
+import { Channel, MultiplexingStream } from 'nerdbank-streams'
+import { MessageConnection } from 'vscode-jsonrpc'
+
+interface MessageConnectionWithMultiplexingStream extends MessageConnection {
+	_multiplexingStream?: MultiplexingStream
+	_offeredStreamChannels?: {
+		[id: number]: Channel
+	}
+}
+
+/**
+ * Associates a {@link MultiplexingStream} with a JSON-RPC connection so that streams can be marshaled over its channels.
+ * @param connection The JSON-RPC connection, which typically runs over channel 0 of the multiplexing stream.
+ * @param multiplexingStream The multiplexing stream.
+ */
+export function setMultiplexingStream(connection: MessageConnection, multiplexingStream: MultiplexingStream) {
+	const connectionWithMultiplexingStream = connection as MessageConnectionWithMultiplexingStream
+	connectionWithMultiplexingStream._multiplexingStream = multiplexingStream
+}
+
+function getMultiplexingStream(connection: MessageConnection): MultiplexingStream {
+	const multiplexingStream = (connection as MessageConnectionWithMultiplexingStream)._multiplexingStream
+	if (!multiplexingStream) {
+		throw new Error('Streams can only be marshaled over a connection that was set up with a MultiplexingStream.')
+	}
+
+	return multiplexingStream
+}
+
+/**
+ * Gets the channels offered for streams sent over a connection that the remote party has not yet accepted or rejected.
+ */
+function getOfferedChannels(connection: MessageConnection) {
+	const connectionWithMultiplexingStream = connection as MessageConnectionWithMultiplexingStream
+	connectionWithMultiplexingStream._offeredStreamChannels ??= {}
+	return connectionWithMultiplexingStream._offeredStreamChannels
+}
+
+/**
+ * An interface to be implemented by RPC targets that accept streams as arguments.
+ * Each stream is transmitted as a token that identifies a channel of the connection's {@link MultiplexingStream}.
+ * Since a token is indistinguishable from any other number, the target must declare which parameters are streams.
+ */
+export interface RpcStreamParameters {
+	/**
+	 * The 0-based indexes of the parameters that are streams, keyed by method name.
+	 */
+	readonly _jsonRpcStreamParameters: { readonly [methodName: string]: readonly number[] }
+}
+
+export namespace RpcStream {
+	/**
+	 * Tests whether a given value is a stream that should be marshaled over a {@link MultiplexingStream} channel.
+	 * @param value the value to be tested.
+	 */
+	export function is(value: any): value is NodeJS.ReadableStream | NodeJS.WritableStream {
+		return typeof value?.pipe === 'function' && (typeof value.read === 'function' || typeof value.write === 'function')
+	}
+
+	/**
+	 * Gets a stream received as a return value from a proxy.
+	 * @param proxy The proxy that returned the token.
+	 * @param token The channel token that was returned. May be `null` when the remote party returned a `null` stream.
+	 * @returns The stream, which is duplex. Only the direction(s) the remote party supports will carry data.
+	 */
+	export function accept(proxy: object, token: number | null): NodeJS.ReadWriteStream | null {
+		const connection = (proxy as { _jsonRpc?: MessageConnection })._jsonRpc
+		if (!connection) {
+			throw new Error('The value is not a JSON-RPC proxy.')
+		}
+
+		return fromToken(token, connection)
+	}
+
+	/**
+	 * Offers a channel over which a stream is transmitted, and pipes the stream through it.
+	 * @param stream The stream to transmit. A readable stream is copied to the channel, and the channel is copied to a writable stream.
+	 * @param connection The connection over which the token will be sent.
+	 * @returns The token that identifies the channel.
+	 */
+	export function toToken(stream: NodeJS.ReadableStream | NodeJS.WritableStream, connection: MessageConnection): number {
+		const channel = getMultiplexingStream(connection).createChannel()
+		const offeredChannels = getOfferedChannels(connection)
+		const id = channel.qualifiedId.id
+		offeredChannels[id] = channel
+		const settleOffer = () => delete offeredChannels[id]
+		channel.acceptance.then(settleOffer, settleOffer)
+
+		if ('read' in stream && typeof stream.read === 'function') {
+			stream.pipe(channel.stream)
+		}
+
+		if ('write' in stream && typeof stream.write === 'function') {
+			channel.stream.pipe(stream)
+		}
+
+		return id
+	}
+
+	/**
+	 * Closes the channel identified by a token if the remote party has not accepted it, once the call that carried it has failed.
+	 * @param token The channel token.
+	 * @param connection The connection over which the token was to be sent.
+	 */
+	export function cancelOffer(token: number, connection: MessageConnection) {
+		getOfferedChannels(connection)[token]?.dispose()
+	}
+
+	/**
+	 * Accepts the channel identified by a token received over JSON-RPC.
+	 * @param token The channel token.
+	 * @param connection The connection over which the token was received.
+	 * @returns The channel's stream, or `null` if the token was `null`.
+	 */
+	export function fromToken(token: number | null | undefined, connection: MessageConnection): NodeJS.ReadWriteStream | null {
+		if (token === null || token === undefined) {
+			return null
+		}
+
+		return getMultiplexingStream(connection).acceptChannel(token).stream
+	}
+}
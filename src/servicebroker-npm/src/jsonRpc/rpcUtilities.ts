@@ -1,50 +1,249 @@
-import { MessageConnection, CancellationToken as vscodeCancellationToken, ParameterStructures, Disposable } from 'vscode-jsonrpc'
+import CancellationToken from 'cancellationtoken'
+import {
+	MessageConnection,
+	CancellationToken as vscodeCancellationToken,
+	ParameterStructures,
+	Disposable,
+	ResponseError,
+	ErrorCodes,
+	ConnectionError,
+} from 'vscode-jsonrpc'
 import { CancellationTokenAdapters } from '../CancellationTokenAdapter'
+import { ConnectionLostError } from '../ConnectionLostError'
+import { RemoteInvocationError } from '../RemoteInvocationError'
+import { ServiceActivationFailedError } from '../ServiceActivationFailedError'
+import { UnauthorizedAccessError } from '../UnauthorizedAccessError'
+import { IJsonRpcAsyncEnumerable, RpcAsyncEnumerableParameters } from './AsyncEnumerable'
+import { CommonErrorData } from './CommonErrorData'
+import { MethodNameTransform } from './CommonMethodNameTransforms'
+import { JsonRpcErrorCode } from './JsonRpcErrorCode'
 import { IJsonRpcMarshaledObject, MarshaledObjectProxy, RpcMarshalable } from './MarshalableObject'
+import { JsonRpcProgress, RpcProgressParameters } from './Progress'
+import { isRpcMethod, rpcMethod, unwrapMethod } from './RpcMethod'
+import { RpcStream, RpcStreamParameters } from './RpcStream'
 
-export async function invokeRpc(methodName: string, inputArgs: IArguments, messageConnection: MessageConnection): Promise<any> {
-	if (inputArgs.length > 0) {
-		if (vscodeCancellationToken.is(inputArgs[inputArgs.length - 1])) {
-			const ct = inputArgs[inputArgs.length - 1]
-			const args = filterOutboundArgs(messageConnection, Array.prototype.slice.call(inputArgs, 0, inputArgs.length - 1))
-			return messageConnection.sendRequest(methodName, ParameterStructures.byPosition, ...args, ct)
-		} else if (CancellationTokenAdapters.isCancellationToken(inputArgs[inputArgs.length - 1])) {
-			const ct = CancellationTokenAdapters.cancellationTokenToVSCode(inputArgs[inputArgs.length - 1])
-			const args = filterOutboundArgs(messageConnection, Array.prototype.slice.call(inputArgs, 0, inputArgs.length - 1))
-			return messageConnection.sendRequest(methodName, ParameterStructures.byPosition, ...args, ct)
-		} else if (inputArgs[inputArgs.length - 1] === undefined) {
+/**
+ * Describes how the arguments of a JSON-RPC request are structured.
+ * `byPosition` sends them as an array. `byName` sends them as a single object whose properties are named after the parameters.
+ */
+export type JsonRpcParameterStructure = 'byPosition' | 'byName'
+
+/**
+ * An interface to be implemented by RPC targets that accept named arguments for methods whose parameter names cannot be read from their source,
+ * such as minified methods, or methods that take a rest parameter.
+ */
+export interface RpcParameterNames {
+	/**
+	 * The names of the parameters of each method, in order, keyed by method name.
+	 */
+	readonly _jsonRpcParameterNames: { readonly [methodName: string]: readonly string[] }
+}
+
+/**
+ * Sends a JSON-RPC request.
+ * @param methodName The name of the method to invoke.
+ * @param inputArgs The arguments, optionally followed by a cancellation token.
+ * When the parameter structure is `byName`, the arguments are given as a single object whose properties are named after the parameters.
+ * @param messageConnection The connection to send the request over.
+ * @param parameterStructure How the arguments are structured in the request.
+ * @returns The result of the request.
+ */
+export async function invokeRpc(
+	methodName: string,
+	inputArgs: IArguments,
+	messageConnection: MessageConnection,
+	parameterStructure: JsonRpcParameterStructure = 'byPosition'
+): Promise<any> {
+	const { args, ct, parameterNames } = getOutboundArguments(inputArgs, parameterStructure)
+	let validatedArgs = filterOutboundArgs(messageConnection, args)
+	if (validatedArgs instanceof Promise) {
+		validatedArgs = await validatedArgs
+	}
+
+	try {
+		const { structure, params } = toParams(validatedArgs, parameterNames)
+		const result = ct
+			? await messageConnection.sendRequest(methodName, structure, ...params, ct)
+			: await messageConnection.sendRequest(methodName, structure, ...params)
+		return filterInboundResult(messageConnection, result)
+	} catch (reason) {
+		cancelWrapArgs(messageConnection, args, validatedArgs)
+		throw filterInboundError(reason)
+	} finally {
+		// Objects marshaled with a call lifetime may no longer be invoked now that the call has completed,
+		// and progress is no longer reported.
+		for (let i = 0; i < validatedArgs.length; i++) {
+			if (IJsonRpcMarshaledObject.isCallScoped(validatedArgs[i])) {
+				IJsonRpcMarshaledObject.cancelWrap(validatedArgs[i], messageConnection)
+			} else if (JsonRpcProgress.is(args[i])) {
+				JsonRpcProgress.release(validatedArgs[i], messageConnection)
+			}
+		}
+	}
+}
+
+/**
+ * Sends a JSON-RPC notification, which the remote party does not respond to.
+ * @param methodName The name of the method to invoke.
+ * @param inputArgs The arguments, which are given as they are to {@link invokeRpc}.
+ * A trailing cancellation token is accepted so that a method may be invoked either way, but it is not transmitted.
+ * @param messageConnection The connection to send the notification over.
+ * @param parameterStructure How the arguments are structured in the notification.
+ * @returns A promise that resolves once the notification has been transmitted.
+ */
+export async function notifyRpc(
+	methodName: string,
+	inputArgs: IArguments,
+	messageConnection: MessageConnection,
+	parameterStructure: JsonRpcParameterStructure = 'byPosition'
+): Promise<void> {
+	const { args, parameterNames } = getOutboundArguments(inputArgs, parameterStructure)
+
+	// Nothing could ever release these, since a notification never completes.
+	if (args.some(arg => (RpcMarshalable.is(arg) && arg._jsonRpcMarshalableLifetime === 'call') || JsonRpcProgress.is(arg))) {
+		throw new Error('Marshaled objects with a call lifetime and progress may not be passed to notifications.')
+	}
+
+	let validatedArgs = filterOutboundArgs(messageConnection, args)
+	if (validatedArgs instanceof Promise) {
+		validatedArgs = await validatedArgs
+	}
+
+	try {
+		const { structure, params } = toParams(validatedArgs, parameterNames)
+		await messageConnection.sendNotification(methodName, structure, ...params)
+	} catch (reason) {
+		cancelWrapArgs(messageConnection, args, validatedArgs)
+		throw filterInboundError(reason)
+	}
+}
+
+/**
+ * Separates the arguments given to a proxy method from the cancellation token that may follow them.
+ * When the parameter structure is `byName`, the properties of the single argument object are returned as positional arguments,
+ * so that they may be filtered just like positional ones, along with their names to reassemble them afterward.
+ */
+function getOutboundArguments(
+	inputArgs: IArguments,
+	parameterStructure: JsonRpcParameterStructure
+): { args: any[]; ct?: vscodeCancellationToken; parameterNames?: string[] } {
+	let args: any[] = Array.prototype.slice.call(inputArgs)
+	let ct: vscodeCancellationToken | undefined
+	if (args.length > 0) {
+		if (vscodeCancellationToken.is(args[args.length - 1])) {
+			ct = args.pop()
+		} else if (CancellationTokenAdapters.isCancellationToken(args[args.length - 1])) {
+			ct = CancellationTokenAdapters.cancellationTokenToVSCode(args.pop())
+		} else if (args[args.length - 1] === undefined) {
 			// The last arg is most likely a `CancellationToken?` that was propagated to the RPC call from another method that made it optional.
 			// We can't tell, but we mustn't claim it's a CancellationToken nor an ordinary argument or else an RPC server
 			// may fail to match the RPC call to a method because of an extra argument.
 			// If this truly was a value intended to propagate, they should use `null` as the argument.
-			const args = filterOutboundArgs(messageConnection, Array.prototype.slice.call(inputArgs, 0, inputArgs.length - 1))
-			return messageConnection.sendRequest(methodName, ParameterStructures.byPosition, ...args)
+			args.pop()
 		}
 	}
 
-	const validatedArgs = filterOutboundArgs(messageConnection, Array.prototype.slice.call(inputArgs))
-	try {
-		const result = await messageConnection.sendRequest(methodName, ParameterStructures.byPosition, ...validatedArgs)
-		return filterInboundResult(messageConnection, result)
-	} catch (reason) {
-		// If any args were marshaled objects, dispose of them.
-		for (const arg of validatedArgs) {
-			if (IJsonRpcMarshaledObject.is(arg)) {
-				IJsonRpcMarshaledObject.cancelWrap(arg, messageConnection)
-			}
+	if (parameterStructure === 'byName') {
+		const namedArgs = getNamedArguments(args)
+		const parameterNames = Object.keys(namedArgs).filter(name => namedArgs[name] !== undefined)
+		return { args: parameterNames.map(name => namedArgs[name]), ct, parameterNames }
+	}
+
+	return { args, ct }
+}
+
+function toParams(filteredArgs: any[], parameterNames: string[] | undefined): { structure: ParameterStructures; params: any[] } {
+	return parameterNames
+		? { structure: ParameterStructures.byName, params: [Object.fromEntries(parameterNames.map((name, i) => [name, filteredArgs[i]]))] }
+		: { structure: ParameterStructures.byPosition, params: filteredArgs }
+}
+
+/**
+ * Disposes of the marshaled objects and enumerables among arguments that were never delivered,
+ * and closes the channels offered for their streams.
+ * @param connection The connection over which the arguments were to be sent.
+ * @param args The arguments as they were given, since stream tokens cannot be told apart from other numbers.
+ * @param filteredArgs The arguments as they were to be sent. Arguments that failed to be filtered are `undefined`.
+ */
+function cancelWrapArgs(connection: MessageConnection, args: any[], filteredArgs: any[]) {
+	for (let i = 0; i < filteredArgs.length; i++) {
+		const arg = filteredArgs[i]
+		if (IJsonRpcMarshaledObject.is(arg)) {
+			IJsonRpcMarshaledObject.cancelWrap(arg, connection)
+		} else if (IJsonRpcAsyncEnumerable.isWrapped(arg)) {
+			IJsonRpcAsyncEnumerable.cancelWrap(arg, connection)
+		} else if (RpcStream.is(args[i]) && typeof arg === 'number') {
+			RpcStream.cancelOffer(arg, connection)
 		}
+	}
+}
+
+function getNamedArguments(args: any[]): { [name: string]: any } {
+	if (args.length === 0) {
+		return {}
+	}
 
-		throw reason
+	if (args.length > 1 || !isNamedArguments(args[0])) {
+		throw new Error('Arguments must be given as a single object whose properties are named after the parameters when invoking methods by named arguments.')
 	}
+
+	return args[0]
 }
 
-function filterOutboundArgs(connection: MessageConnection, args: any[]): any[] {
-	return validateNoUndefinedElements(args).map(v => filterOutboundMarshalableObject(connection, v))
+/**
+ * Tests whether a value is a plain object that may carry named arguments.
+ */
+function isNamedArguments(value: any): value is { [name: string]: any } {
+	return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype && !IJsonRpcMarshaledObject.is(value)
+}
+
+function filterOutboundArgs(connection: MessageConnection, args: any[]): any[] | Promise<any[]> {
+	const filteredArgs = validateNoUndefinedElements(args).map(v => filterOutboundValue(connection, v))
+
+	// Only defer sending the request when an argument has values to prefetch, so that messages are otherwise sent in the order of the calls.
+	if (!filteredArgs.some(v => v instanceof Promise)) {
+		return filteredArgs
+	}
+
+	return Promise.allSettled(filteredArgs).then(results => {
+		const values = results.map(result => (result.status === 'fulfilled' ? result.value : undefined))
+		const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')
+		if (failure) {
+			cancelWrapArgs(connection, args, values)
+			throw failure.reason
+		}
+
+		return values
+	})
 }
 
 async function filterOutboundResult(connection: MessageConnection, value: any | Promise<any>): Promise<any> {
-	const unwrappedPromiseValue = await value
-	return filterOutboundMarshalableObject(connection, unwrappedPromiseValue)
+	try {
+		const unwrappedPromiseValue = await value
+		if (RpcMarshalable.is(unwrappedPromiseValue) && unwrappedPromiseValue._jsonRpcMarshalableLifetime === 'call') {
+			throw new Error('Marshaled objects with a call lifetime may only be passed as arguments, not returned.')
+		}
+
+		if (JsonRpcProgress.is(unwrappedPromiseValue)) {
+			throw new Error('Progress may only be passed as an argument, not returned.')
+		}
+
+		return await filterOutboundValue(connection, unwrappedPromiseValue)
+	} catch (err) {
+		throw filterOutboundError(err)
+	}
+}
+
+function filterOutboundError(error: unknown): unknown {
+	if (error instanceof ResponseError) {
+		return error
+	} else if (error instanceof ServiceActivationFailedError || error instanceof UnauthorizedAccessError) {
+		return error.toResponseError()
+	}
+
+	// Describe the error the way StreamJsonRpc does, so that .NET and TypeScript clients alike can interpret it.
+	const code = error instanceof CancellationToken.CancellationError ? JsonRpcErrorCode.requestCanceled : JsonRpcErrorCode.invocationError
+	return new ResponseError(code, error instanceof Error ? error.message : String(error), CommonErrorData.create(error))
 }
 
 function filterOutboundMarshalableObject(connection: MessageConnection, value: any): any | IJsonRpcMarshaledObject {
@@ -55,6 +254,21 @@ function filterOutboundMarshalableObject(connection: MessageConnection, value: a
 	}
 }
 
+function filterOutboundValue(connection: MessageConnection, value: any): any | Promise<any> {
+	if (RpcMarshalable.is(value) || MarshaledObjectProxy.is(value)) {
+		return filterOutboundMarshalableObject(connection, value)
+	} else if (JsonRpcProgress.is(value)) {
+		return JsonRpcProgress.toToken(value, connection)
+	} else if (RpcStream.is(value)) {
+		// Streams are also async iterable, but they are transmitted more efficiently over a channel.
+		return RpcStream.toToken(value, connection)
+	} else if (IJsonRpcAsyncEnumerable.isAsyncIterable(value)) {
+		return IJsonRpcAsyncEnumerable.wrap(value, connection)
+	} else {
+		return value
+	}
+}
+
 function validateNoUndefinedElements<T>(values: T[]): T[] {
 	for (let i = 0; i < values.length; i++) {
 		if (values[i] === undefined) {
@@ -87,6 +301,143 @@ function getInstanceMethodNames(obj: object, stopPrototype?: any): string[] {
 	return array
 }
 
+/**
+ * Gets the names of the parameters of a function, by parsing its source.
+ * @param method The function.
+ * @param methodName The name of the method, for the error message.
+ * @throws Error if the source does not reveal the names, as for native and bound functions, for rest and destructured parameters,
+ * and for default values that contain divisions or regular expressions.
+ */
+function getParameterNames(method: Function, methodName: string): string[] {
+	const source = Function.prototype.toString.call(method)
+	const cannotDetermine = () =>
+		new Error(
+			`The parameter names of the "${methodName}" method cannot be determined from its source. Declare them with _jsonRpcParameterNames to accept named arguments.`
+		)
+
+	// An arrow function with a single parameter need not enclose it in parentheses.
+	const unparenthesized = source.match(/^(?:async\s+)?([\w$]+)\s*=>/)
+	if (unparenthesized) {
+		return [unparenthesized[1]]
+	}
+
+	const start = source.indexOf('(')
+	if (start < 0 || /\{\s*\[native code\]\s*\}$/.test(source)) {
+		throw cannotDetermine()
+	}
+
+	// Split the parameter list at commas that are not nested within the brackets, strings, template literals or comments
+	// of default values and destructuring patterns.
+	const closers: string[] = []
+	const parameters: string[] = []
+	let current = ''
+	for (let i = start + 1; ; i++) {
+		if (i >= source.length) {
+			throw cannotDetermine()
+		}
+
+		const c = source[i]
+		if (closers[closers.length - 1] === '`') {
+			// Within a template literal, only its end and the start of a substitution matter.
+			if (c === '\\') {
+				i++
+			} else if (c === '`') {
+				closers.pop()
+			} else if (c === '$' && source[i + 1] === '{') {
+				closers.push('}')
+				i++
+			}
+
+			continue
+		}
+
+		if (c === "'" || c === '"') {
+			do {
+				i += source[i] === '\\' ? 2 : 1
+			} while (i < source.length && source[i] !== c)
+			continue
+		}
+
+		if (c === '/') {
+			const commentEnd = source[i + 1] === '/' ? source.indexOf('\n', i) : source[i + 1] === '*' ? source.indexOf('*/', i + 2) + 1 : -1
+			if (commentEnd <= i) {
+				// A division cannot be told apart from a regular expression literal without fully parsing the source.
+				throw cannotDetermine()
+			}
+
+			i = commentEnd
+			current += ' '
+			continue
+		}
+
+		if (c === '`') {
+			closers.push(c)
+		} else if ('([{'.includes(c)) {
+			closers.push(')]}'['([{'.indexOf(c)])
+		} else if (c === ')' || c === ']' || c === '}') {
+			if (closers.length === 0 && c === ')') {
+				break
+			}
+
+			if (closers.pop() !== c) {
+				throw cannotDetermine()
+			}
+		} else if (c === ',' && closers.length === 0) {
+			parameters.push(current)
+			current = ''
+			continue
+		}
+
+		current += c
+	}
+
+	parameters.push(current)
+	return parameters
+		.map(p => p.trim())
+		.filter((p, i, all) => p || i < all.length - 1)
+		.map(p => {
+			const name = p.match(/^[\w$]+/)?.[0]
+			if (!name) {
+				throw cannotDetermine()
+			}
+
+			return name
+		})
+}
+
+/**
+ * Converts the arguments of a request whose parameters were given by name into the positional arguments of the method that serves it.
+ * @param getParameterNames Gets the names of the parameters of the method that serves the request.
+ * @param args The arguments vscode-jsonrpc passes to the handler. For named parameters, this is the parameter object, followed by the cancellation token for requests.
+ * @returns The positional arguments, or the original arguments if the parameters were not given by name.
+ */
+function namedToPositionalArguments(getParameterNames: () => readonly string[], args: any[]): any[] {
+	const cancellationToken = args.length > 0 && vscodeCancellationToken.is(args[args.length - 1]) ? args[args.length - 1] : undefined
+	if (args.length !== (cancellationToken ? 2 : 1) || !isNamedArguments(args[0])) {
+		return args
+	}
+
+	const namedArgs = args[0]
+	const parameterNames = getParameterNames()
+	for (const name of Object.keys(namedArgs)) {
+		if (!parameterNames.includes(name)) {
+			throw new ResponseError(JsonRpcErrorCode.invalidParams, `The method has no parameter named "${name}".`)
+		}
+	}
+
+	const positionalArgs = parameterNames.map(name => namedArgs[name])
+	while (positionalArgs.length > 0 && positionalArgs[positionalArgs.length - 1] === undefined) {
+		positionalArgs.pop()
+	}
+
+	// As with positional arguments, the cancellation token follows the last argument given.
+	if (cancellationToken) {
+		positionalArgs.push(cancellationToken)
+	}
+
+	return positionalArgs
+}
+
 function wrapCancellationTokenIfPresent(args: any[]): any[] {
 	if (args.length > 0 && CancellationTokenAdapters.isVSCode(args[args.length - 1])) {
 		const adaptedCancellationToken = CancellationTokenAdapters.vscodeToCancellationToken(args[args.length - 1])
@@ -108,40 +459,180 @@ function filterInboundValue(connection: MessageConnection, value: any): any {
 	return filterInboundMarshalableObject(connection, value)
 }
 
-function filterInboundArguments(connection: MessageConnection, args: any[]): any[] {
-	return wrapCancellationTokenIfPresent(args).map(v => filterInboundValue(connection, v))
+/**
+ * The indexes of an RPC target method's parameters that receive tokens or serialized forms, which must be turned back into objects.
+ */
+interface TokenParameters {
+	streams?: readonly number[]
+	progress?: readonly number[]
+	enumerables?: readonly number[]
+}
+
+function filterInboundArguments(connection: MessageConnection, args: any[], tokenParameters?: TokenParameters): any[] {
+	return wrapCancellationTokenIfPresent(args).map((v, i) => {
+		if (tokenParameters?.streams?.includes(i)) {
+			return RpcStream.fromToken(v, connection)
+		} else if (tokenParameters?.progress?.includes(i)) {
+			return JsonRpcProgress.fromToken(v, connection)
+		} else if (tokenParameters?.enumerables?.includes(i)) {
+			return IJsonRpcAsyncEnumerable.fromValue(v, connection)
+		} else {
+			return filterInboundValue(connection, v)
+		}
+	})
 }
 
 function filterInboundResult(connection: MessageConnection, value: any): any {
 	return filterInboundValue(connection, value)
 }
 
-export function registerInstanceMethodsAsRpcTargets(
-	rpcTarget: any,
-	connection: MessageConnection,
-	rpcMethodNameTransform?: (functionName: string) => string
-): Disposable {
+/**
+ * The error codes vscode-jsonrpc uses to fail requests whose responses can no longer arrive.
+ */
+const connectionLostErrorCodes: readonly number[] = [ErrorCodes.PendingResponseRejected, ErrorCodes.MessageReadError, ErrorCodes.MessageWriteError]
+
+function filterInboundError(error: unknown): unknown {
+	if (error instanceof ConnectionError || (error instanceof ResponseError && connectionLostErrorCodes.includes(error.code))) {
+		return new ConnectionLostError(undefined, error)
+	} else if (error instanceof ResponseError && error.code === JsonRpcErrorCode.requestCanceled) {
+		return new CancellationToken.CancellationError(error.message)
+	} else if (error instanceof ResponseError) {
+		return (
+			ServiceActivationFailedError.tryFromResponseError(error) ??
+			UnauthorizedAccessError.tryFromResponseError(error) ??
+			RemoteInvocationError.fromResponseError(error)
+		)
+	}
+
+	return error
+}
+
+/**
+ * Disposes of proxies to objects that were marshaled with a lifetime scoped to a call that has completed.
+ * @param args The arguments as they were received.
+ * @param inboundArgs The arguments as they were given to the RPC target method.
+ */
+function releaseCallScopedArguments(args: any[], inboundArgs: any[]) {
+	for (let i = 0; i < args.length; i++) {
+		if (IJsonRpcMarshaledObject.isCallScoped(args[i])) {
+			const proxy = inboundArgs[i] as MarshaledObjectProxy
+			proxy.dispose()
+		}
+	}
+}
+
+/**
+ * Options for {@link registerInstanceMethodsAsRpcTargets}.
+ */
+export interface RpcTargetOptions {
+	/**
+	 * Transforms the name of each method into the name the remote party invokes it by.
+	 */
+	rpcMethodNameTransform?: MethodNameTransform
+
+	/**
+	 * The names of the methods to register. When omitted, all methods are registered.
+	 */
+	methodNames?: readonly string[]
+
+	/**
+	 * When set to `byName`, requests whose parameters are a single object are served by matching its properties to the names of the method's parameters.
+	 */
+	parameterStructure?: JsonRpcParameterStructure
+
+	/**
+	 * The names of methods to expose in addition to those marked with the {@link rpcMethod} decorator.
+	 * Once any method is exposed explicitly, the target's other methods are not registered.
+	 */
+	exposedMethodNames?: readonly string[]
+
+	/**
+	 * A value indicating whether only explicitly exposed methods are registered, even when there are none.
+	 * Otherwise, a target that exposes no methods explicitly has all its methods registered.
+	 */
+	strictMethodExposure?: boolean
+}
+
+/**
+ * Gets the names of the functions assigned to an RPC target's own enumerable properties that may serve as its methods.
+ * Those of plain objects, such as object literals and objects built by factory closures, are all methods.
+ * Class instances must opt in to each one, so that their private fields and injected callbacks stay out of reach of remote parties.
+ */
+function getOwnMethodNames(rpcTarget: any, options?: RpcTargetOptions): string[] {
+	const ownMethodNames = Object.keys(rpcTarget).filter(name => isMethod(rpcTarget, name))
+	const prototype = Object.getPrototypeOf(rpcTarget)
+	if (prototype === Object.prototype || prototype === null) {
+		return ownMethodNames
+	}
+
+	return ownMethodNames.filter(name => isRpcMethod(rpcTarget[name]) || options?.exposedMethodNames?.includes(name))
+}
+
+/**
+ * Gets the names of the methods of an RPC target that may be invoked remotely.
+ */
+function getExposedMethodNames(rpcTarget: any, options?: RpcTargetOptions): string[] {
+	const candidates = [...new Set([...getOwnMethodNames(rpcTarget, options), ...getInstanceMethodNames(rpcTarget, Object.prototype)])]
+	const exposed = candidates.filter(methodName => isRpcMethod(rpcTarget[methodName]) || options?.exposedMethodNames?.includes(methodName))
+
+	// dispose is never registered, since disposal is tied to the connection, but exposing it still opts the target into explicit exposure.
+	return (exposed.length > 0 || options?.strictMethodExposure ? exposed : candidates).filter(methodName => methodName !== 'dispose')
+}
+
+export function registerInstanceMethodsAsRpcTargets(rpcTarget: any, connection: MessageConnection, options?: RpcTargetOptions): Disposable {
 	const disposables: Disposable[] = []
+	const rpcMethodNameTransform = options?.rpcMethodNameTransform
+	const methodNames = options?.methodNames
+	const filterArgumentStructure =
+		options?.parameterStructure === 'byName' ? namedToPositionalArguments : (getParameterNames: () => readonly string[], args: any[]) => args
+
+	function registerRequestAndNotification(rpcMethodName: string, method: any, parameterNames: () => readonly string[], tokenParameters: TokenParameters) {
+		disposables.push(
+			connection.onRequest(rpcMethodName, (...requestArgs: any[]) => {
+				const args = filterArgumentStructure(parameterNames, requestArgs)
+				const inboundArgs = filterInboundArguments(connection, args, tokenParameters)
+				let result: any
+				try {
+					result = method.apply(rpcTarget, inboundArgs)
+				} catch (err) {
+					result = Promise.reject(err)
+				}
 
-	function registerRequestAndNotification(methodName: string, method: any) {
-		const rpcMethodName = rpcMethodNameTransform ? rpcMethodNameTransform(methodName) : methodName
+				return filterOutboundResult(connection, result).finally(() => releaseCallScopedArguments(args, inboundArgs))
+			})
+		)
 		disposables.push(
-			connection.onRequest(rpcMethodName, (...args: []) =>
-				filterOutboundResult(connection, method.apply(rpcTarget, filterInboundArguments(connection, args)))
-			)
+			connection.onNotification(rpcMethodName, (...args: any[]) => {
+				// The sender does not wait for notifications, so nobody can observe their failure.
+				try {
+					const result = method.apply(rpcTarget, filterInboundArguments(connection, filterArgumentStructure(parameterNames, args), tokenParameters))
+					if (result instanceof Promise) {
+						result.catch(() => {})
+					}
+				} catch {
+					// The arguments could not be dispatched to the method, or it threw synchronously.
+				}
+			})
 		)
-		disposables.push(connection.onNotification(rpcMethodName, (...args: []) => method.apply(rpcTarget, filterInboundArguments(connection, args))))
 	}
 
-	getInstanceMethodNames(rpcTarget, Object.prototype).forEach(methodName => {
-		if (methodName !== 'dispose') {
+	getExposedMethodNames(rpcTarget, options).forEach(methodName => {
+		if (!methodNames || methodNames.includes(methodName)) {
 			const method = rpcTarget[methodName]
-			registerRequestAndNotification(methodName, method)
+			const declaredParameterNames = (rpcTarget as Partial<RpcParameterNames>)._jsonRpcParameterNames?.[methodName]
+			const parameterNames = () => declaredParameterNames ?? getParameterNames(unwrapMethod(method), methodName)
+			const tokenParameters: TokenParameters = {
+				streams: (rpcTarget as Partial<RpcStreamParameters>)._jsonRpcStreamParameters?.[methodName],
+				progress: (rpcTarget as Partial<RpcProgressParameters>)._jsonRpcProgressParameters?.[methodName],
+				enumerables: (rpcTarget as Partial<RpcAsyncEnumerableParameters>)._jsonRpcAsyncEnumerableParameters?.[methodName],
+			}
+			const rpcMethodName = rpcMethodNameTransform ? rpcMethodNameTransform(methodName) : methodName
+			registerRequestAndNotification(rpcMethodName, method, parameterNames, tokenParameters)
 
 			// Add an alias for the method so that we support with and without the Async suffix.
 			const suffix = 'Async'
-			const alias = methodName.endsWith(suffix) ? methodName.substring(0, methodName.length - suffix.length) : `${methodName}${suffix}`
-			registerRequestAndNotification(alias, method)
+			const alias = rpcMethodName.endsWith(suffix) ? rpcMethodName.substring(0, rpcMethodName.length - suffix.length) : `${rpcMethodName}${suffix}`
+			registerRequestAndNotification(alias, method, parameterNames, tokenParameters)
 		}
 	})
 
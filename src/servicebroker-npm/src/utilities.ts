@@ -2,6 +2,7 @@ import { Channel } from 'nerdbank-streams'
 import { MessageConnection } from 'vscode-jsonrpc'
 import assert from 'assert'
 import { registerReleaseMarshaledObjectCallback } from './jsonRpc/MarshalableObject'
+import { registerEnumeratorCallbacks } from './jsonRpc/AsyncEnumerable'
 
 /**
  * Constructs a message connection to a given pipe
@@ -31,6 +32,7 @@ export function constructMessageConnection(
 	}
 
 	registerReleaseMarshaledObjectCallback(rpc)
+	registerEnumeratorCallbacks(rpc)
 
 	return rpc
 }
@@ -76,4 +76,86 @@ describe('Authorization Service Client tests', function () {
 		assert(haveCredsChanged, 'credentialsChanged event should have been fired')
 		assert(hasAuthChanged, 'authorizationChanged event should have been fired')
 	})
+	describe('caching', function () {
+		let mockAuthService: MockAuthService
+		let authClient: AuthorizationServiceClient
+
+		beforeEach(() => {
+			mockAuthService = new MockAuthService({ user1: 'authorized!' })
+			authClient = new AuthorizationServiceClient(mockAuthService)
+		})
+
+		afterEach(() => {
+			authClient.dispose()
+		})
+
+		it('reuses credentials until they change', async function () {
+			await authClient.getCredentials(defaultToken)
+			await authClient.getCredentials(defaultToken)
+			assert.strictEqual(mockAuthService.getCredentialsCount, 1)
+
+			mockAuthService.updateCredentials({ user1: 'reauthorized!' })
+			mockAuthService.emit('credentialsChanged')
+			const creds = await authClient.getCredentials(defaultToken)
+			assert.strictEqual(creds['user1'], 'reauthorized!')
+			assert.strictEqual(mockAuthService.getCredentialsCount, 2)
+		})
+
+		it('coalesces concurrent requests', async function () {
+			await Promise.all([authClient.getCredentials(defaultToken), authClient.getCredentials(defaultToken)])
+			assert.strictEqual(mockAuthService.getCredentialsCount, 1)
+
+			const results = await Promise.all([
+				authClient.checkAuthorization(ProtectedOperation.create('op', 1), defaultToken),
+				authClient.checkAuthorization(ProtectedOperation.create('op', 1), defaultToken),
+			])
+			assert.deepStrictEqual(results, [true, true])
+			assert.strictEqual(mockAuthService.checkAuthorizationCount, 1)
+		})
+
+		it('answers less demanding checks with an approval', async function () {
+			assert.strictEqual(await authClient.checkAuthorization(ProtectedOperation.create('op', 2), defaultToken), true)
+			assert.strictEqual(await authClient.checkAuthorization(ProtectedOperation.create('op', 1), defaultToken), true)
+			assert.strictEqual(mockAuthService.checkAuthorizationCount, 1)
+
+			assert.strictEqual(await authClient.checkAuthorization(ProtectedOperation.create('other', 1), defaultToken), true)
+			assert.strictEqual(await authClient.checkAuthorization(ProtectedOperation.create('op', 3), defaultToken), true)
+			assert.strictEqual(mockAuthService.checkAuthorizationCount, 3)
+		})
+
+		it('answers more demanding checks with a denial', async function () {
+			mockAuthService.maxTrustLevel = 1
+			assert.strictEqual(await authClient.checkAuthorization(ProtectedOperation.create('op', 2), defaultToken), false)
+			assert.strictEqual(await authClient.checkAuthorization(ProtectedOperation.create('op', 3), defaultToken), false)
+			assert.strictEqual(mockAuthService.checkAuthorizationCount, 1)
+
+			assert.strictEqual(await authClient.checkAuthorization(ProtectedOperation.create('op', 1), defaultToken), true)
+			assert.strictEqual(mockAuthService.checkAuthorizationCount, 2)
+		})
+
+		it('forgets checks when authorization changes', async function () {
+			mockAuthService.maxTrustLevel = 1
+			assert.strictEqual(await authClient.checkAuthorization(ProtectedOperation.create('op', 2), defaultToken), false)
+
+			mockAuthService.maxTrustLevel = 2
+			mockAuthService.emit('authorizationChanged')
+			assert.strictEqual(await authClient.checkAuthorization(ProtectedOperation.create('op', 2), defaultToken), true)
+			assert.strictEqual(mockAuthService.checkAuthorizationCount, 2)
+		})
+
+		it('retries failed requests', async function () {
+			mockAuthService.getCredentials = () => Promise.reject(new Error('offline'))
+			await assert.rejects(authClient.getCredentials(defaultToken), /offline/)
+
+			delete (mockAuthService as Partial<MockAuthService>).getCredentials
+			const creds = await authClient.getCredentials(defaultToken)
+			assert.equal(creds['user1'], 'authorized!')
+		})
+
+		it('stops listening for changes when disposed', function () {
+			authClient.dispose()
+			assert.strictEqual(mockAuthService.listenerCount('credentialsChanged'), 0)
+			assert.strictEqual(mockAuthService.listenerCount('authorizationChanged'), 0)
+		})
+	})
 })
@@ -0,0 +1,137 @@
+import immutable from 'immutable'
+import {
+	AuthorizationPolicy,
+	ClientCredentialsPolicy,
+	DefaultAuthorizationService,
+	FrameworkServices,
+	GlobalBrokeredServiceContainer,
+	IAuthorizationService,
+	ProtectedOperation,
+	RemoteMethodNotFoundError,
+	ServiceAudience,
+	ServiceRegistration,
+} from '../src'
+import { Calculator } from './testAssets/calculatorService'
+import { Descriptors } from './testAssets/Descriptors'
+import { ICalculatorService } from './testAssets/interfaces'
+
+describe('DefaultAuthorizationService', function () {
+	const ownerCredentials = { user: 'owner' }
+	const guestCredentials = { user: 'guest' }
+
+	/** A policy that grants guests the operations listed for them. */
+	function createPolicy(guestOperations: readonly ProtectedOperation[]): AuthorizationPolicy {
+		return {
+			isOwner: credentials => credentials.user === ownerCredentials.user,
+			getAuthorizedOperations: credentials => (credentials.user === guestCredentials.user ? guestOperations : []),
+		}
+	}
+
+	let service: DefaultAuthorizationService
+
+	beforeEach(function () {
+		service = new DefaultAuthorizationService(createPolicy([ProtectedOperation.create('read', 2)]))
+	})
+
+	it('authorizes every operation for the owner', async function () {
+		const owner = service.forClient(ownerCredentials)
+		expect(await owner.checkAuthorization(ProtectedOperation.create('write', 5))).toBe(true)
+		owner.dispose()
+	})
+
+	it('authorizes operations granted by the policy at or below their trust level', async function () {
+		const guest = service.forClient(guestCredentials)
+		expect(await guest.checkAuthorization(ProtectedOperation.create('read', 1))).toBe(true)
+		expect(await guest.checkAuthorization(ProtectedOperation.create('read', 2))).toBe(true)
+		expect(await guest.checkAuthorization(ProtectedOperation.create('read', 3))).toBe(false)
+		expect(await guest.checkAuthorization(ProtectedOperation.create('write', 1))).toBe(false)
+		guest.dispose()
+	})
+
+	it('denies unknown clients', async function () {
+		const stranger = service.forClient({ user: 'stranger' })
+		expect(await stranger.checkAuthorization(ProtectedOperation.create('read', 1))).toBe(false)
+		stranger.dispose()
+	})
+
+	it('returns the client credentials', async function () {
+		const guest = service.forClient(guestCredentials)
+		expect(await guest.getCredentials()).toStrictEqual(guestCredentials)
+		guest.dispose()
+	})
+
+	it('raises authorizationChanged on every client when the policy is updated', async function () {
+		const guest = service.forClient(guestCredentials)
+		let changes = 0
+		guest.on('authorizationChanged', () => changes++)
+
+		const policy = createPolicy([ProtectedOperation.create('write', 1)])
+		service.setPolicy(policy)
+		expect(changes).toStrictEqual(1)
+		expect(guest.policy).toBe(policy)
+		expect(await guest.checkAuthorization(ProtectedOperation.create('write', 1))).toBe(true)
+		expect(await guest.checkAuthorization(ProtectedOperation.create('read', 1))).toBe(false)
+
+		guest.dispose()
+		service.setPolicy(createPolicy([]))
+		expect(changes).toStrictEqual(1)
+	})
+
+	describe('proffered by GlobalBrokeredServiceContainer', function () {
+		let container: GlobalBrokeredServiceContainer
+
+		beforeEach(function () {
+			container = new GlobalBrokeredServiceContainer()
+			container.profferAuthorizationService(service)
+			container.register([
+				{ moniker: Descriptors.calculator.moniker, registration: new ServiceRegistration(ServiceAudience.allClientsIncludingGuests, false) },
+			])
+			container.profferServiceFactory(Descriptors.calculator, () => new Calculator())
+		})
+
+		function getGuestBroker(credentials: { [key: string]: string }) {
+			return container.getLimitedAccessServiceBroker(
+				ServiceAudience.liveShareGuest,
+				immutable.Map<string, string>(Object.entries(credentials)),
+				ClientCredentialsPolicy.filterOverridesRequest
+			)
+		}
+
+		it('answers for the credentials of the requesting client', async function () {
+			const authorizationService = await container
+				.getSecureServiceBroker({ clientCredentials: guestCredentials })
+				.getProxy<IAuthorizationService>(FrameworkServices.authorization)
+			expect(await authorizationService!.getCredentials()).toStrictEqual(guestCredentials)
+			expect(await authorizationService!.checkAuthorization(ProtectedOperation.create('read', 1))).toBe(true)
+			authorizationService!.dispose()
+		})
+
+		it('keeps remote clients from changing the policy', async function () {
+			const pipe = await container.getSecureServiceBroker({ clientCredentials: guestCredentials }).getPipe(FrameworkServices.authorization.moniker)
+			const authorizationService = FrameworkServices.authorization.constructRpc<
+				IAuthorizationService & { setPolicy(policy: AuthorizationPolicy): Promise<void> }
+			>(pipe!)
+			expect(await authorizationService.checkAuthorization(ProtectedOperation.create('read', 1))).toBe(true)
+			await expect(authorizationService.setPolicy(createPolicy([]))).rejects.toBeInstanceOf(RemoteMethodNotFoundError)
+			expect(await authorizationService.checkAuthorization(ProtectedOperation.create('read', 1))).toBe(true)
+			authorizationService.dispose()
+		})
+
+		it('admits the owner to services that do not allow guests', async function () {
+			const calc = await getGuestBroker(ownerCredentials).getProxy<ICalculatorService>(Descriptors.calculator)
+			expect(calc).toBeTruthy()
+			calc!.dispose()
+		})
+
+		it('keeps other guests from services that do not allow guests', async function () {
+			const calc = await getGuestBroker(guestCredentials).getProxy<ICalculatorService>(Descriptors.calculator)
+			expect(calc).toBeNull()
+		})
+
+		it('can be removed', function () {
+			container = new GlobalBrokeredServiceContainer()
+			container.profferAuthorizationService(service).dispose()
+			expect(() => container.profferAuthorizationService(service)).not.toThrow()
+		})
+	})
+})
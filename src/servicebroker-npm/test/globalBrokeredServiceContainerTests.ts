@@ -13,10 +13,21 @@ import {
 	IAuthorizationService,
 	AuthorizationServiceEvents,
 	ProtectedOperation,
+	BrokeredServicesChangedArgs,
+	MissingBrokeredServiceErrorCode,
+	IMissingServiceDiagnosticsService,
+	ServiceActivationFailedError,
+	ServiceMoniker,
+	ServiceJsonRpcDescriptor,
+	Formatters,
+	MessageDelimiters,
+	Observer,
+	ConnectionLostError,
+	DefaultAuthorizationService,
+	UnauthorizedAccessError,
 } from '../src'
 import { Calculator } from './testAssets/calculatorService'
 import { EmptyRemoteServiceBroker } from './testAssets/emptyRemoteServiceBroker'
-import { ICalculatorService } from './testAssets/interfaces'
 import { FullDuplexStream, MultiplexingStream } from 'nerdbank-streams'
 import { nextTick } from 'process'
 import immutable from 'immutable'
@@ -25,6 +36,13 @@ import { Descriptors } from './testAssets/Descriptors'
 import { EventEmitter } from 'events'
 import CancellationToken from 'cancellationtoken'
 import StrictEventEmitter from 'strict-event-emitter-types'
+import { connect } from 'net'
+import { Readable } from 'stream'
+import { RemoteServiceBroker } from '../src/RemoteServiceBroker'
+import { CallMeBackService } from './testAssets/callMeBackService'
+import { CallMeBackClient } from './testAssets/callMeBackClient'
+import { ICalculatorService, ICallMeBackClient, ICallMeBackService } from './testAssets/interfaces'
+import { callBackDescriptor } from './testAssets/testUtilities'
 
 describe('GlobalBrokeredServiceContainer', function () {
 	let container: GlobalBrokeredServiceContainer
@@ -144,6 +162,128 @@ describe('GlobalBrokeredServiceContainer', function () {
 		})
 	})
 
+	describe('revoking guest authorization', function () {
+		let authorizationService: DefaultAuthorizationService
+		let calcService: Calculator | undefined
+		let guestBroker: IServiceBroker & IRemoteServiceBroker
+
+		function setClientIsOwner(clientIsOwner: boolean) {
+			authorizationService.setPolicy({ isOwner: () => clientIsOwner, getAuthorizedOperations: () => [] })
+		}
+
+		beforeEach(function () {
+			authorizationService = new DefaultAuthorizationService({ isOwner: () => true, getAuthorizedOperations: () => [] })
+			container.profferAuthorizationService(authorizationService)
+			container.register([
+				{ moniker: Descriptors.calculator.moniker, registration: new ServiceRegistration(ServiceAudience.allClientsIncludingGuests, false) },
+			])
+			container.profferServiceFactory(Descriptors.calculator, () => (calcService = new Calculator()))
+			guestBroker = container.getLimitedAccessServiceBroker(
+				ServiceAudience.liveShareGuest,
+				immutable.Map(),
+				ClientCredentialsPolicy.filterOverridesRequest
+			)
+		})
+
+		it('closes proxies when the client is no longer authorized', async function () {
+			const calc = await guestBroker.getProxy<ICalculatorService>(Descriptors.calculator)
+			expect(await calc!.add(3, 2)).toStrictEqual(5)
+
+			setClientIsOwner(false)
+			await calcService!.disposed
+		})
+
+		it('rejects calls to proxies once the client is no longer authorized', async function () {
+			const calc = await guestBroker.getProxy<ICalculatorService>(Descriptors.calculator)
+			setClientIsOwner(false)
+			await calcService!.disposed
+			await expect(calc!.add(3, 2)).rejects.toBeInstanceOf(UnauthorizedAccessError)
+			await expect(Promise.resolve(calc)).resolves.toBe(calc)
+			expect((calc as any).isDisposed).toBeUndefined()
+			calc!.dispose()
+		})
+
+		it('closes pipes when the client is no longer authorized', async function () {
+			const pipe = await guestBroker.getPipe(Descriptors.calculator.moniker)
+			const calc = Descriptors.calculator.constructRpc<ICalculatorService>(pipe!)
+			expect(await calc.add(3, 2)).toStrictEqual(5)
+
+			setClientIsOwner(false)
+			await calcService!.disposed
+			calc.dispose()
+		})
+
+		it('closes multiplexing channels when the client is no longer authorized', async function () {
+			const pipes = FullDuplexStream.CreatePair()
+			const [hostStream, guestStream] = await Promise.all([MultiplexingStream.CreateAsync(pipes.first), MultiplexingStream.CreateAsync(pipes.second)])
+			const offered = new Promise(resolve => guestStream.once('channelOffered', resolve))
+			const connectionInfo = await guestBroker.requestServiceChannel(Descriptors.calculator.moniker, { multiplexingStream: hostStream })
+			await offered
+			const channel = guestStream.acceptChannel(connectionInfo.multiplexingChannelId!)
+			const calc = Descriptors.calculator.constructRpc<ICalculatorService>(channel)
+			expect(await calc.add(3, 2)).toStrictEqual(5)
+
+			setClientIsOwner(false)
+			await calcService!.disposed
+			await channel.completion
+			calc.dispose()
+			hostStream.dispose()
+			guestStream.dispose()
+		})
+
+		it('closes IPC pipes when the client is no longer authorized', async function () {
+			const connectionInfo = await guestBroker.requestServiceChannel(Descriptors.calculator.moniker)
+			const socket = connect(connectionInfo.pipeName!)
+			const closed = new Promise(resolve => socket.once('close', resolve))
+			const calc = Descriptors.calculator.constructRpc<ICalculatorService>(socket)
+			expect(await calc.add(3, 2)).toStrictEqual(5)
+
+			setClientIsOwner(false)
+			await calcService!.disposed
+			await closed
+			calc.dispose()
+		})
+
+		it('cancels multiplexing channel offers', async function () {
+			const pipes = FullDuplexStream.CreatePair()
+			const [hostStream, guestStream] = await Promise.all([MultiplexingStream.CreateAsync(pipes.first), MultiplexingStream.CreateAsync(pipes.second)])
+			const connectionInfo = await guestBroker.requestServiceChannel(Descriptors.calculator.moniker, { multiplexingStream: hostStream })
+			await guestBroker.cancelServiceRequest(connectionInfo.requestId!)
+			await calcService!.disposed
+			await expect(guestBroker.cancelServiceRequest(connectionInfo.requestId!)).rejects.toBeTruthy()
+			hostStream.dispose()
+			guestStream.dispose()
+		})
+
+		it('leaves connections open while the client is still authorized', async function () {
+			const calc = await guestBroker.getProxy<ICalculatorService>(Descriptors.calculator)
+			setClientIsOwner(true)
+			await new Promise(resolve => setTimeout(resolve, 10))
+			expect(calcService!.isDisposed).toBe(false)
+			expect(await calc!.add(3, 2)).toStrictEqual(5)
+			calc!.dispose()
+		})
+
+		it('stops watching connections the client has closed', async function () {
+			const calc = await guestBroker.getProxy<ICalculatorService>(Descriptors.calculator)
+			expect(authorizationService.listenerCount('authorizationChanged')).toStrictEqual(1)
+			calc!.dispose()
+			expect(authorizationService.listenerCount('authorizationChanged')).toStrictEqual(0)
+
+			const pipe = await guestBroker.getPipe(Descriptors.calculator.moniker)
+			expect(authorizationService.listenerCount('authorizationChanged')).toStrictEqual(1)
+			pipe!.end()
+			await calcService!.disposed
+			expect(authorizationService.listenerCount('authorizationChanged')).toStrictEqual(0)
+		})
+
+		it('does not watch connections that needed no authorization', async function () {
+			const calc = await container.getFullAccessServiceBroker().getProxy<ICalculatorService>(Descriptors.calculator)
+			expect(authorizationService.listenerCount('authorizationChanged')).toStrictEqual(0)
+			calc!.dispose()
+		})
+	})
+
 	describe('register', function () {
 		it('accepts empty array', function () {
 			expect(container.register([])).toBeTruthy()
@@ -299,12 +439,204 @@ describe('GlobalBrokeredServiceContainer', function () {
 			calc?.dispose()
 		})
 
+		it('serves object literals over pipes', async function () {
+			container.profferServiceFactory(Descriptors.calculator, () => ({ add: (a: number, b: number) => a + b }))
+			const sb = container.getFullAccessServiceBroker()
+			const pipe = await sb.getPipe(Descriptors.calculator.moniker)
+			const calc = Descriptors.calculator.constructRpc<ICalculatorService>(pipe!)
+			expect(await calc.add(3, 2)).toStrictEqual(5)
+			calc.dispose()
+		})
+
 		it('factory returns non-promise null', async function () {
 			container.profferServiceFactory(Descriptors.calculator, () => null)
 			const sb = container.getFullAccessServiceBroker()
 			const calc = await sb.getProxy<ICalculatorService>(Descriptors.calculator)
 			expect(calc).toBeNull()
 		})
+
+		it('wraps factory errors in ServiceActivationFailedError', async function () {
+			const inner = new Error('factory failure')
+			container.profferServiceFactory(Descriptors.calculator, () => {
+				throw inner
+			})
+			const sb = container.getFullAccessServiceBroker()
+			for (const request of [sb.getProxy(Descriptors.calculator), sb.getPipe(Descriptors.calculator.moniker)]) {
+				const err = await request.catch(e => e)
+				expect(err).toBeInstanceOf(ServiceActivationFailedError)
+				expect(err.serviceMoniker).toEqual(Descriptors.calculator.moniker)
+				expect(err.missingServiceErrorCode).toStrictEqual(MissingBrokeredServiceErrorCode.serviceFactoryFault)
+				expect(err.innerError).toBe(inner)
+			}
+		})
+
+		it('does not wrap cancellation', async function () {
+			container.profferServiceFactory(Descriptors.calculator, (mk, options, sb, ct) => {
+				ct.throwIfCancelled()
+				return null
+			})
+			const sb = container.getFullAccessServiceBroker()
+			const cts = CancellationToken.create()
+			const request = sb.getProxy(Descriptors.calculator, undefined, cts.token)
+			cts.cancel()
+			await expect(request).rejects.toBeInstanceOf(CancellationToken.CancellationError)
+		})
+	})
+
+	describe('local proxies', function () {
+		const localProxyDescriptor = new ServiceJsonRpcDescriptor(Descriptors.calculator.moniker, Formatters.Utf8, MessageDelimiters.HttpLikeHeaders, {
+			useLocalProxy: true,
+		})
+
+		beforeEach(function () {
+			registerCommonServices(container)
+		})
+
+		it('makes calls asynchronous and copies arguments', async function () {
+			interface ISummer {
+				sum(values: number[]): Promise<number>
+			}
+
+			container.profferServiceFactory(localProxyDescriptor, () => ({
+				sum(values: number[]) {
+					const result = values.reduce((a, b) => a + b, 0)
+					values.push(result)
+					return result
+				},
+			}))
+			const sb = container.getFullAccessServiceBroker()
+			const summer = await sb.getProxy<ISummer>(localProxyDescriptor)
+			const values = [1, 2]
+			const result = summer!.sum(values)
+			expect(result).toBeInstanceOf(Promise)
+			expect(await result).toStrictEqual(3)
+			expect(values).toStrictEqual([1, 2])
+			summer!.dispose()
+		})
+
+		it('honors marshalable objects', async function () {
+			container.profferServiceFactory(localProxyDescriptor, () => new Calculator())
+			const sb = container.getFullAccessServiceBroker()
+			const calc = await sb.getProxy<ICalculatorService>(localProxyDescriptor)
+			const values: number[] = []
+			const observer = new Observer<number>(v => values.push(v))
+			await calc!.observeNumbers(observer, 2, false)
+			expect(values).toStrictEqual([0, 1, 2])
+			expect(observer.completed).toStrictEqual(true)
+		})
+
+		it('cuts off access after dispose', async function () {
+			const service = new Calculator()
+			container.profferServiceFactory(localProxyDescriptor, () => service)
+			const sb = container.getFullAccessServiceBroker()
+			const calc = await sb.getProxy<ICalculatorService>(localProxyDescriptor)
+			expect(await calc!.add(1, 2)).toStrictEqual(3)
+			calc!.dispose()
+			await service.disposed
+			await expect(calc!.add(1, 2)).rejects.toBeInstanceOf(ConnectionLostError)
+		})
+
+		it('transmit streams', async function () {
+			interface IUploadService {
+				upload(content: NodeJS.ReadableStream): Promise<string>
+			}
+
+			const descriptor = new ServiceJsonRpcDescriptor(ServiceMoniker.create('upload'), Formatters.Utf8, MessageDelimiters.HttpLikeHeaders, {
+				useLocalProxy: true,
+			})
+			container.register([{ moniker: descriptor.moniker, registration: new ServiceRegistration(ServiceAudience.local, false) }])
+			container.profferServiceFactory(descriptor, () => ({
+				_jsonRpcStreamParameters: { upload: [0] },
+				async upload(content: NodeJS.ReadableStream) {
+					const chunks: Buffer[] = []
+					for await (const chunk of content) {
+						chunks.push(Buffer.from(chunk))
+					}
+
+					return Buffer.concat(chunks).toString()
+				},
+			}))
+			const service = await container.getFullAccessServiceBroker().getProxy<IUploadService>(descriptor)
+			expect(await service!.upload(Readable.from([Buffer.from('Hello, '), Buffer.from('world!')]))).toStrictEqual('Hello, world!')
+			service!.dispose()
+		})
+
+		it('give the service a proxy to the client RPC target', async function () {
+			const descriptor = new ServiceJsonRpcDescriptor(callBackDescriptor.moniker, Formatters.Utf8, MessageDelimiters.HttpLikeHeaders, {
+				useLocalProxy: true,
+			})
+			container.register([{ moniker: descriptor.moniker, registration: new ServiceRegistration(ServiceAudience.local, false) }])
+			let clientRpcTarget: unknown
+			container.profferServiceFactory(
+				descriptor,
+				(mk, options) => new CallMeBackService((clientRpcTarget = options.clientRpcTarget) as ICallMeBackClient)
+			)
+			const callbackClient = new CallMeBackClient()
+			const service = await container.getFullAccessServiceBroker().getProxy<ICallMeBackService>(descriptor, { clientRpcTarget: callbackClient })
+			expect(clientRpcTarget).toBeTruthy()
+			expect(clientRpcTarget).not.toBe(callbackClient)
+			await service!.callMeBack('Hello')
+			expect(callbackClient.lastMessage).toStrictEqual('Hello')
+			service!.dispose()
+		})
+
+		it('is opt-in', async function () {
+			const service = new Calculator()
+			container.profferServiceFactory(Descriptors.calculator, () => service)
+			const sb = container.getFullAccessServiceBroker()
+			expect(await sb.getProxy<ICalculatorService>(Descriptors.calculator)).toBe(service)
+		})
+	})
+
+	describe('relayed services', function () {
+		let client: RemoteServiceBroker
+		let relay: MultiplexingRelayServiceBroker
+
+		beforeEach(async function () {
+			const pipes = FullDuplexStream.CreatePair()
+			;[relay, client] = await Promise.all([
+				MultiplexingRelayServiceBroker.connectToServer(container.getFullAccessServiceBroker(), pipes.first),
+				RemoteServiceBroker.connectToMultiplexingDuplex(pipes.second),
+			])
+		})
+
+		afterEach(function () {
+			client.dispose()
+			relay.dispose()
+		})
+
+		it('call back client RPC targets', async function () {
+			container.register([{ moniker: callBackDescriptor.moniker, registration: new ServiceRegistration(ServiceAudience.local, false) }])
+			container.profferServiceFactory(callBackDescriptor, (mk, options) => new CallMeBackService(options.clientRpcTarget as ICallMeBackClient))
+			const callbackClient = new CallMeBackClient()
+			const service = await client.getProxy<ICallMeBackService>(callBackDescriptor, { clientRpcTarget: callbackClient })
+			await service!.callMeBack('Hello')
+			expect(callbackClient.lastMessage).toStrictEqual('Hello')
+			service!.dispose()
+		})
+
+		it('transmit streams over the multiplexing stream', async function () {
+			interface IUploadService {
+				upload(content: NodeJS.ReadableStream): Promise<string>
+			}
+
+			const descriptor = Descriptors.create('upload')
+			container.register([{ moniker: descriptor.moniker, registration: new ServiceRegistration(ServiceAudience.local, false) }])
+			container.profferServiceFactory(descriptor, () => ({
+				_jsonRpcStreamParameters: { upload: [0] },
+				async upload(content: NodeJS.ReadableStream) {
+					const chunks: Buffer[] = []
+					for await (const chunk of content) {
+						chunks.push(Buffer.from(chunk))
+					}
+
+					return Buffer.concat(chunks).toString()
+				},
+			}))
+			const service = await client.getProxy<IUploadService>(descriptor)
+			expect(await service!.upload(Readable.from([Buffer.from('Hello, '), Buffer.from('world!')]))).toStrictEqual('Hello, world!')
+			service!.dispose()
+		})
 	})
 
 	describe('profferServiceBroker', function () {
@@ -351,6 +683,8 @@ describe('GlobalBrokeredServiceContainer', function () {
 			subContainer = new GlobalBrokeredServiceContainer()
 			registerCommonServices(subContainer)
 			subContainer.profferServiceFactory(Descriptors.calculator, (mk, options, sb, ct) => Promise.resolve((calcService = new Calculator())))
+			registerSharedServices(subContainer)
+			subContainer.profferServiceFactory(sharedCalculator, () => new Calculator())
 		})
 
 		beforeEach(async function () {
@@ -390,6 +724,27 @@ describe('GlobalBrokeredServiceContainer', function () {
 			await expect(calc?.add(3, 2)).resolves.toStrictEqual(5)
 		})
 
+		it('rehydrates activation failures from remote sources', async function () {
+			const faultyService = Descriptors.create('faulty')
+			const registration = [{ moniker: faultyService.moniker, registration: new ServiceRegistration(ServiceAudience.local, false) }]
+			container.register(registration)
+			const subRegistration = subContainer.register(registration)
+			const subProffer = subContainer.profferServiceFactory(faultyService, () => Promise.reject(new Error('factory failure')))
+			try {
+				container.profferRemoteServiceBroker(subContainerProxy, localMx, ServiceSource.otherProcessOnSameMachine, [faultyService.moniker])
+				const sb = container.getFullAccessServiceBroker()
+				const err = await sb.getProxy(faultyService).catch(e => e)
+				expect(err).toBeInstanceOf(ServiceActivationFailedError)
+				expect(ServiceMoniker.equals(err.serviceMoniker, faultyService.moniker)).toBe(true)
+				expect(err.missingServiceErrorCode).toStrictEqual(MissingBrokeredServiceErrorCode.serviceFactoryFault)
+				expect(err.innerError).toBeInstanceOf(Error)
+				expect(err.innerError.message).toStrictEqual('factory failure')
+			} finally {
+				subProffer.dispose()
+				subRegistration.dispose()
+			}
+		})
+
 		it('result disposal removes services', async function () {
 			container
 				.profferRemoteServiceBroker(subContainerProxy, localMx, ServiceSource.otherProcessOnSameMachine, [Descriptors.calculator.moniker])
@@ -397,6 +752,237 @@ describe('GlobalBrokeredServiceContainer', function () {
 			const sb = container.getFullAccessServiceBroker()
 			expect(sb.getProxy<ICalculatorService>(Descriptors.calculator)).resolves.toStrictEqual(null)
 		})
+
+		it('prefers remote sources over local proffers for local consumers', async function () {
+			let localFactoryInvoked = false
+			registerSharedServices(container)
+			container.profferServiceFactory(sharedCalculator, () => {
+				localFactoryInvoked = true
+				return new Calculator()
+			})
+			container.profferRemoteServiceBroker(subContainerProxy, localMx, ServiceSource.trustedServer, [sharedCalculator.moniker])
+			const sb = container.getFullAccessServiceBroker()
+			const calc = await sb.getProxy<ICalculatorService>(sharedCalculator)
+			expect(calc).toBeTruthy()
+			await expect(calc?.add(3, 2)).resolves.toStrictEqual(5)
+			expect(localFactoryInvoked).toBe(false)
+			calc?.dispose()
+		})
+
+		it('does not offer remote services to remote consumers', async function () {
+			registerSharedServices(container)
+			container.profferRemoteServiceBroker(subContainerProxy, localMx, ServiceSource.trustedServer, [sharedCalculator.moniker])
+			const guestBroker = container.getLimitedAccessServiceBroker(
+				ServiceAudience.liveShareGuest,
+				immutable.Map(),
+				ClientCredentialsPolicy.filterOverridesRequest
+			)
+			await expect(guestBroker.getProxy<ICalculatorService>(sharedCalculator)).resolves.toBeNull()
+		})
+
+		it('hides local proffers of remotable services while a remote source exists', async function () {
+			let localFactoryInvoked = false
+			registerSharedServices(container)
+			container.profferServiceFactory(sharedCalculator, () => {
+				localFactoryInvoked = true
+				return new Calculator()
+			})
+			const remoteProffer = container.profferRemoteServiceBroker(new EmptyRemoteServiceBroker(), null, ServiceSource.untrustedServer, [])
+			const sb = container.getFullAccessServiceBroker()
+			await expect(sb.getProxy<ICalculatorService>(sharedCalculator)).resolves.toBeNull()
+			expect(localFactoryInvoked).toBe(false)
+
+			// Once the remote source goes away, the local proffer should be visible again.
+			remoteProffer.dispose()
+			const calc = await sb.getProxy<ICalculatorService>(sharedCalculator)
+			expect(calc).toBeTruthy()
+			expect(localFactoryInvoked).toBe(true)
+			calc?.dispose()
+		})
+
+		it('does not hide local-only services while a remote source exists', async function () {
+			container.profferServiceFactory(Descriptors.calculator, () => new Calculator())
+			container.profferRemoteServiceBroker(new EmptyRemoteServiceBroker(), null, ServiceSource.untrustedServer, [])
+			const sb = container.getFullAccessServiceBroker()
+			const calc = await sb.getProxy<ICalculatorService>(Descriptors.calculator)
+			expect(calc).toBeTruthy()
+			calc?.dispose()
+		})
+	})
+
+	describe('availabilityChanged', function () {
+		beforeEach(function () {
+			registerCommonServices(container)
+		})
+
+		function collectEvents(sb: IServiceBroker) {
+			const events: BrokeredServicesChangedArgs[] = []
+			sb.on('availabilityChanged', args => events.push(args))
+			return events
+		}
+
+		it('is raised when a service is proffered and revoked', function () {
+			const events = collectEvents(container.getFullAccessServiceBroker())
+			const proffered = container.profferServiceFactory(Descriptors.calculator, () => new Calculator())
+			expect(events).toHaveLength(1)
+			expect(events[0].impactedServices?.map(m => m.name)).toEqual([Descriptors.calculator.moniker.name])
+
+			proffered.dispose()
+			expect(events).toHaveLength(2)
+			expect(events[1].impactedServices?.map(m => m.name)).toEqual([Descriptors.calculator.moniker.name])
+		})
+
+		it('is filtered by the audience of the view', function () {
+			const guestEvents = collectEvents(
+				container.getLimitedAccessServiceBroker(ServiceAudience.liveShareGuest, immutable.Map(), ClientCredentialsPolicy.filterOverridesRequest)
+			)
+			const localEvents = collectEvents(
+				container.getLimitedAccessServiceBroker(ServiceAudience.local, immutable.Map(), ClientCredentialsPolicy.filterOverridesRequest)
+			)
+			container.profferServiceFactory(Descriptors.calculator, () => new Calculator())
+			expect(localEvents).toHaveLength(1)
+			expect(guestEvents).toHaveLength(0)
+		})
+
+		it('is not raised for local proffers hidden by a remote source', function () {
+			registerSharedServices(container)
+			container.profferRemoteServiceBroker(new EmptyRemoteServiceBroker(), null, ServiceSource.untrustedServer, [])
+			const events = collectEvents(container.getFullAccessServiceBroker())
+			container.profferServiceFactory(sharedCalculator, () => new Calculator())
+			expect(events).toHaveLength(0)
+		})
+
+		it('is not raised after the listener is removed', function () {
+			const sb = container.getFullAccessServiceBroker()
+			let eventCount = 0
+			const listener = () => eventCount++
+			sb.on('availabilityChanged', listener)
+			sb.off('availabilityChanged', listener)
+			container.profferServiceFactory(Descriptors.calculator, () => new Calculator())
+			expect(eventCount).toStrictEqual(0)
+		})
+
+		it('propagates changes from a proffered service broker', function () {
+			const subContainer = new GlobalBrokeredServiceContainer()
+			registerCommonServices(subContainer)
+			container.profferServiceBroker(subContainer.getFullAccessServiceBroker(), [Descriptors.calculator.moniker])
+			const events = collectEvents(container.getFullAccessServiceBroker())
+			subContainer.profferServiceFactory(Descriptors.calculator, () => new Calculator())
+			expect(events).toHaveLength(1)
+			expect(events[0].impactedServices?.map(m => m.name)).toEqual([Descriptors.calculator.moniker.name])
+		})
+	})
+
+	describe('missing service diagnostics', function () {
+		async function analyze(moniker = Descriptors.calculator.moniker, audience = ServiceAudience.local) {
+			return await container.analyzeMissingService(moniker, audience)
+		}
+
+		it('reports unregistered services', async function () {
+			expect(await analyze()).toEqual({ errorCode: MissingBrokeredServiceErrorCode.notLocallyRegistered })
+		})
+
+		it('reports services that are not exposed to the audience', async function () {
+			registerCommonServices(container)
+			container.profferServiceFactory(Descriptors.calculator, () => new Calculator())
+			expect(await analyze(Descriptors.calculator.moniker, ServiceAudience.liveShareGuest)).toEqual({
+				errorCode: MissingBrokeredServiceErrorCode.serviceAudienceMismatch,
+			})
+		})
+
+		it('reports services the client is not authorized to have', async function () {
+			container.register([
+				{ moniker: Descriptors.calculator.moniker, registration: new ServiceRegistration(ServiceAudience.allClientsIncludingGuests, false) },
+			])
+			container.profferServiceFactory(Descriptors.calculator, () => new Calculator())
+			expect(await analyze(Descriptors.calculator.moniker, ServiceAudience.liveShareGuest)).toEqual({
+				errorCode: MissingBrokeredServiceErrorCode.serviceAudienceMismatch,
+			})
+		})
+
+		it('activates view-intrinsic services for the view', async function () {
+			expect(await analyze(GlobalBrokeredServiceContainer.missingServiceDiagnostics.moniker)).toEqual({
+				errorCode: MissingBrokeredServiceErrorCode.noExplanation,
+				expectedSource: ServiceSource.sameProcess,
+			})
+		})
+
+		it('reports services that are not proffered', async function () {
+			registerCommonServices(container)
+			expect(await analyze()).toEqual({ errorCode: MissingBrokeredServiceErrorCode.serviceFactoryNotProffered })
+		})
+
+		it('reports local services hidden by a remote source', async function () {
+			registerSharedServices(container)
+			container.profferServiceFactory(sharedCalculator, () => new Calculator())
+			container.profferRemoteServiceBroker(new EmptyRemoteServiceBroker(), null, ServiceSource.trustedServer, [])
+			expect(await analyze(sharedCalculator.moniker)).toEqual({ errorCode: MissingBrokeredServiceErrorCode.localServiceHiddenOnRemoteClient })
+		})
+
+		it('reports factories that return null', async function () {
+			registerCommonServices(container)
+			container.profferServiceFactory(Descriptors.calculator, () => null)
+			expect(await analyze()).toEqual({
+				errorCode: MissingBrokeredServiceErrorCode.serviceFactoryReturnedNull,
+				expectedSource: ServiceSource.sameProcess,
+			})
+		})
+
+		it('reports factories that throw', async function () {
+			registerCommonServices(container)
+			container.profferServiceFactory(Descriptors.calculator, () => Promise.reject(new Error('factory failure')))
+			expect(await analyze()).toEqual({ errorCode: MissingBrokeredServiceErrorCode.serviceFactoryFault, expectedSource: ServiceSource.sameProcess })
+		})
+
+		it('reports no explanation for available services', async function () {
+			registerCommonServices(container)
+			const calc = new Calculator()
+			container.profferServiceFactory(Descriptors.calculator, () => calc)
+			expect(await analyze()).toEqual({ errorCode: MissingBrokeredServiceErrorCode.noExplanation, expectedSource: ServiceSource.sameProcess })
+			await calc.disposed
+		})
+
+		it('is available as a brokered service', async function () {
+			registerCommonServices(container)
+			const sb = container.getFullAccessServiceBroker()
+			const pipe = await sb.getPipe(GlobalBrokeredServiceContainer.missingServiceDiagnostics.moniker)
+			expect(pipe).toBeTruthy()
+			const diagnostics = GlobalBrokeredServiceContainer.missingServiceDiagnostics.constructRpc<IMissingServiceDiagnosticsService>(pipe!)
+			try {
+				await expect(diagnostics.analyzeMissingService(Descriptors.calculator.moniker)).resolves.toEqual({
+					errorCode: MissingBrokeredServiceErrorCode.serviceFactoryNotProffered,
+				})
+			} finally {
+				diagnostics.dispose()
+			}
+		})
+
+		it('brokered service answers under its .NET method name', async function () {
+			registerCommonServices(container)
+			const pipe = await container.getFullAccessServiceBroker().getPipe(GlobalBrokeredServiceContainer.missingServiceDiagnostics.moniker)
+			const dotnetDescriptor = new ServiceJsonRpcDescriptor(
+				GlobalBrokeredServiceContainer.missingServiceDiagnostics.moniker,
+				Formatters.MessagePack,
+				MessageDelimiters.BigEndianInt32LengthHeader
+			)
+			interface IDotNetMissingServiceDiagnosticsService {
+				// eslint-disable-next-line @typescript-eslint/naming-convention
+				AnalyzeMissingServiceAsync(missingServiceMoniker: ServiceMoniker): Promise<unknown>
+			}
+			const diagnostics = dotnetDescriptor.constructRpc<IDotNetMissingServiceDiagnosticsService>(pipe!)
+			try {
+				await expect(diagnostics.AnalyzeMissingServiceAsync(Descriptors.calculator.moniker)).resolves.toEqual({
+					errorCode: MissingBrokeredServiceErrorCode.serviceFactoryNotProffered,
+				})
+			} finally {
+				diagnostics.dispose()
+			}
+		})
+
+		it('brokered service is not available to remote clients', async function () {
+			const sb = container.getLimitedAccessServiceBroker(ServiceAudience.liveShareGuest, immutable.Map(), ClientCredentialsPolicy.filterOverridesRequest)
+			await expect(sb.getProxy(GlobalBrokeredServiceContainer.missingServiceDiagnostics)).resolves.toBeNull()
+		})
 	})
 
 	describe('IServiceBroker view', function () {
@@ -454,6 +1040,51 @@ describe('GlobalBrokeredServiceContainer', function () {
 			})
 		})
 
+		describe('cancelServiceRequest', function () {
+			let remoteView: IRemoteServiceBroker
+			beforeEach(function () {
+				remoteView = container.getLimitedAccessServiceBroker(ServiceAudience.local, immutable.Map(), ClientCredentialsPolicy.filterOverridesRequest)
+			})
+
+			it('cancels channel offer', async function () {
+				const channel = await remoteView.requestServiceChannel(Descriptors.calculator.moniker)
+				expect(channel.pipeName).toBeTruthy()
+				expect(channel.requestId).toBeTruthy()
+				await remoteView.cancelServiceRequest(channel.requestId!)
+
+				const connectAttempt = new Promise<void>((resolve, reject) => {
+					const socket = connect(channel.pipeName!)
+					socket.once('connect', () => resolve())
+					socket.once('error', err => reject(err))
+				})
+				await expect(connectAttempt).rejects.toThrow()
+			})
+
+			it('cancels channel offer for a view intrinsic service', async function () {
+				const channel = await remoteView.requestServiceChannel(GlobalBrokeredServiceContainer.missingServiceDiagnostics.moniker)
+				expect(channel.pipeName).toBeTruthy()
+				expect(channel.requestId).toBeTruthy()
+				await remoteView.cancelServiceRequest(channel.requestId!)
+
+				const connectAttempt = new Promise<void>((resolve, reject) => {
+					const socket = connect(channel.pipeName!)
+					socket.once('connect', () => resolve())
+					socket.once('error', err => reject(err))
+				})
+				await expect(connectAttempt).rejects.toThrow()
+			})
+
+			it('rejects unknown request ids', async function () {
+				await expect(remoteView.cancelServiceRequest('00000000-0000-0000-0000-000000000000')).rejects.toBeTruthy()
+			})
+
+			it('rejects a request id that was already canceled', async function () {
+				const channel = await remoteView.requestServiceChannel(Descriptors.calculator.moniker)
+				await remoteView.cancelServiceRequest(channel.requestId!)
+				await expect(remoteView.cancelServiceRequest(channel.requestId!)).rejects.toBeTruthy()
+			})
+		})
+
 		describe('versioned request', function () {
 			let treeVersionRequested: string | undefined
 			beforeEach(function () {
@@ -491,6 +1122,17 @@ describe('GlobalBrokeredServiceContainer', function () {
 	})
 })
 
+const sharedCalculator = Descriptors.create('shared calc')
+
+function registerSharedServices(container: GlobalBrokeredServiceContainer) {
+	return container.register([
+		{
+			moniker: sharedCalculator.moniker,
+			registration: new ServiceRegistration(ServiceAudience.allClientsIncludingGuests, true),
+		},
+	])
+}
+
 function registerCommonServices(container: GlobalBrokeredServiceContainer) {
 	return container.register([
 		{
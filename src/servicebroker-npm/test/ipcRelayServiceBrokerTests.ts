@@ -11,6 +11,7 @@ import { IDisposable } from '../src/IDisposable'
 import { IpcRelayServiceBroker } from '../src/IpcRelayServiceBroker'
 import { IRemoteServiceBroker } from '../src/IRemoteServiceBroker'
 import { IServiceBroker } from '../src/IServiceBroker'
+import { RemoteMethodNotFoundError } from '../src/RemoteInvocationError'
 import { RemoteServiceBroker } from '../src/RemoteServiceBroker'
 import { ICalculatorService } from './testAssets/interfaces'
 import { MockServiceBroker } from './testAssets/mockServiceBroker'
@@ -206,6 +207,22 @@ describe('IpcRelayServiceBroker', function () {
 			relay.dispose()
 			await relay.completion
 		})
+
+		it('cannot be reached by the remote party', async function () {
+			const pair = FullDuplexStream.CreatePair()
+			const relay = new IpcRelayServiceBroker(innerServer)
+			FrameworkServices.remoteServiceBroker.constructRpc(relay, pair.first)
+			const client = FrameworkServices.remoteServiceBroker.constructRpc<{
+				disposed(): Promise<void>
+				onAvailabilityChanged(args: BrokeredServicesChangedArgs): Promise<void>
+			}>(pair.second)
+			try {
+				await expect(client.disposed()).rejects.toBeInstanceOf(RemoteMethodNotFoundError)
+				await expect(client.onAvailabilityChanged({ otherServicesImpacted: true })).rejects.toBeInstanceOf(RemoteMethodNotFoundError)
+			} finally {
+				client.dispose()
+			}
+		})
 	})
 
 	it('repeats availabilityChanged event', async function () {
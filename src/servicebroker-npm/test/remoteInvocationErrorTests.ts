@@ -0,0 +1,134 @@
+import assert from 'assert'
+import CancellationToken from 'cancellationtoken'
+import { FullDuplexStream } from 'nerdbank-streams'
+import { ResponseError } from 'vscode-jsonrpc'
+import {
+	ConnectionLostError,
+	Formatters,
+	IDisposable,
+	JsonRpcErrorCode,
+	MessageDelimiters,
+	MissingBrokeredServiceErrorCode,
+	RemoteInvocationError,
+	RemoteMethodNotFoundError,
+	RemoteRpcError,
+	ServiceActivationFailedError,
+	ServiceJsonRpcDescriptor,
+	ServiceMoniker,
+	UnauthorizedAccessError,
+} from '../src'
+
+describe('RemoteInvocationError', function () {
+	interface IFaultyService {
+		fail(): Promise<void>
+		cancel(): Promise<void>
+		hang(): Promise<void>
+		noSuchMethod(): Promise<void>
+	}
+
+	class FaultyService {
+		hanging?: () => void
+		readonly isHanging = new Promise<void>(resolve => (this.hanging = resolve))
+
+		async fail() {
+			throw new TypeError('Outer failure.', { cause: new RangeError('Inner failure.') })
+		}
+
+		async cancel() {
+			throw new CancellationToken.CancellationError('Requested cancellation.')
+		}
+
+		hang() {
+			this.hanging!()
+			return new Promise<void>(() => {})
+		}
+	}
+
+	let service: FaultyService
+	let rpc: IFaultyService & IDisposable
+
+	beforeEach(function () {
+		const descriptor = new ServiceJsonRpcDescriptor(ServiceMoniker.create('faulty'), Formatters.Utf8, MessageDelimiters.HttpLikeHeaders)
+		const pipes = FullDuplexStream.CreatePair()
+		service = new FaultyService()
+		descriptor.constructRpc(service, pipes.first)
+		rpc = descriptor.constructRpc<IFaultyService>(pipes.second)
+	})
+
+	it('describes errors thrown by the server', async function () {
+		const error = await rpc.fail().then(
+			() => assert.fail('Expected an error.'),
+			err => err
+		)
+		assert(error instanceof RemoteInvocationError)
+		assert(error instanceof RemoteRpcError)
+		assert.strictEqual(error.message, 'Outer failure.')
+		assert.strictEqual(error.errorCode, JsonRpcErrorCode.invocationError)
+		assert.strictEqual(error.commonErrorData?.type, 'TypeError')
+		assert.strictEqual(error.commonErrorData?.inner?.type, 'RangeError')
+
+		const cause = error.cause as Error
+		assert.strictEqual(cause.name, 'TypeError')
+		assert.strictEqual(cause.message, 'Outer failure.')
+		assert.strictEqual((cause.cause as Error).message, 'Inner failure.')
+	})
+
+	it('distinguishes missing methods', async function () {
+		await assert.rejects(rpc.noSuchMethod(), RemoteMethodNotFoundError)
+	})
+
+	it('distinguishes canceled requests', async function () {
+		await assert.rejects(rpc.cancel(), CancellationToken.CancellationError)
+	})
+
+	it('distinguishes lost connections', async function () {
+		const call = rpc.hang()
+		await service.isHanging
+		rpc.dispose()
+		await assert.rejects(call, ConnectionLostError)
+	})
+
+	it('parses errors from .NET services', function () {
+		const error = RemoteInvocationError.fromResponseError(
+			new ResponseError(JsonRpcErrorCode.invocationError, 'Operation is not valid.', {
+				type: 'System.InvalidOperationException',
+				message: 'Operation is not valid.',
+				stack: '   at Service.DoSomething()',
+				code: -2146233079,
+				inner: { type: 'System.IO.IOException', message: 'Disk full.', code: -2147024784 },
+			})
+		)
+		assert.strictEqual(error.errorCode, JsonRpcErrorCode.invocationError)
+		assert.strictEqual(error.commonErrorData?.code, -2146233079)
+
+		const cause = error.cause as Error
+		assert.strictEqual(cause.name, 'System.InvalidOperationException')
+		assert.strictEqual(cause.stack, '   at Service.DoSomething()')
+		assert.strictEqual((cause.cause as Error).name, 'System.IO.IOException')
+	})
+
+	it('is the base of errors with their own types', function () {
+		const inner = new Error('Factory failure.')
+		const activationError = ServiceActivationFailedError.tryFromResponseError(
+			new ServiceActivationFailedError(ServiceMoniker.create('calc'), MissingBrokeredServiceErrorCode.serviceFactoryFault, inner).toResponseError()
+		)
+		assert(activationError instanceof RemoteInvocationError)
+		assert.strictEqual(activationError.errorCode, JsonRpcErrorCode.invocationError)
+		assert.strictEqual(activationError.missingServiceErrorCode, MissingBrokeredServiceErrorCode.serviceFactoryFault)
+		assert.strictEqual(activationError.commonErrorData?.type, ServiceActivationFailedError.typeName)
+		assert.strictEqual((activationError.cause as Error).message, 'Factory failure.')
+
+		const unauthorizedError = UnauthorizedAccessError.tryFromResponseError(new UnauthorizedAccessError().toResponseError())
+		assert(unauthorizedError instanceof RemoteInvocationError)
+		assert.strictEqual(unauthorizedError.errorCode, JsonRpcErrorCode.invocationError)
+		assert.strictEqual(unauthorizedError.commonErrorData?.type, UnauthorizedAccessError.typeName)
+	})
+
+	it('tolerates error data that is not CommonErrorData', function () {
+		const error = RemoteInvocationError.fromResponseError(new ResponseError(-32050, 'Custom failure.', 42))
+		assert.strictEqual(error.errorCode, -32050)
+		assert.strictEqual(error.errorData, 42)
+		assert.strictEqual(error.commonErrorData, undefined)
+		assert.strictEqual(error.cause, undefined)
+	})
+})
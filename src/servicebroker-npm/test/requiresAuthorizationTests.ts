@@ -0,0 +1,182 @@
+import CancellationToken from 'cancellationtoken'
+import {
+	AuthorizedService,
+	DefaultAuthorizationService,
+	Formatters,
+	GlobalBrokeredServiceContainer,
+	IDisposable,
+	IServiceBroker,
+	MessageDelimiters,
+	ProtectedOperation,
+	RemoteMethodNotFoundError,
+	requiresAuthorization,
+	rpcMethod,
+	ServiceAudience,
+	ServiceJsonRpcDescriptor,
+	ServiceMoniker,
+	ServiceRegistration,
+	UnauthorizedAccessError,
+	WellKnownProtectedOperations,
+} from '../src'
+import { Descriptors } from './testAssets/Descriptors'
+
+describe('requiresAuthorization', function () {
+	interface IVault {
+		read(cancellationToken?: CancellationToken): Promise<string>
+		erase(): Promise<void>
+	}
+
+	class Vault implements IVault, AuthorizedService {
+		public erased = false
+
+		constructor(readonly serviceBroker: IServiceBroker) {}
+
+		@rpcMethod
+		@requiresAuthorization(ProtectedOperation.create('read', 1))
+		async read(cancellationToken?: CancellationToken) {
+			return 'secret'
+		}
+
+		@rpcMethod
+		@requiresAuthorization(WellKnownProtectedOperations.createClientIsOwner())
+		async erase() {
+			this.erased = true
+		}
+	}
+
+	interface ISafe {
+		open(args: { combination: string }): Promise<boolean>
+		reset(): Promise<void>
+	}
+
+	/** A service that applies the decorators in the other order, and takes named arguments. */
+	class Safe implements AuthorizedService {
+		constructor(readonly serviceBroker: IServiceBroker) {}
+
+		@requiresAuthorization(ProtectedOperation.create('read', 1))
+		@rpcMethod
+		async open(combination: string) {
+			return combination === '1234'
+		}
+
+		async reset() {}
+	}
+
+	const vaultDescriptor = Descriptors.create('vault')
+	const safeDescriptor = new ServiceJsonRpcDescriptor(ServiceMoniker.create('safe'), Formatters.Utf8, MessageDelimiters.HttpLikeHeaders, {
+		parameterStructure: 'byName',
+	})
+	let container: GlobalBrokeredServiceContainer
+	let vault: Vault | undefined
+	let policyEvaluations: number
+
+	beforeEach(function () {
+		container = new GlobalBrokeredServiceContainer()
+		container.register([
+			{ moniker: vaultDescriptor.moniker, registration: new ServiceRegistration(ServiceAudience.local, false) },
+			{ moniker: safeDescriptor.moniker, registration: new ServiceRegistration(ServiceAudience.local, false) },
+		])
+		container.profferServiceFactory(vaultDescriptor, (mk, options, serviceBroker) => (vault = new Vault(serviceBroker)))
+		container.profferServiceFactory(safeDescriptor, (mk, options, serviceBroker) => new Safe(serviceBroker))
+		policyEvaluations = 0
+	})
+
+	function profferAuthorizationService() {
+		const authorizationService = new DefaultAuthorizationService({
+			isOwner: credentials => credentials.user === 'owner',
+			getAuthorizedOperations: credentials => {
+				policyEvaluations++
+				return credentials.user === 'guest' ? [ProtectedOperation.create('read', 1)] : []
+			},
+		})
+		container.profferAuthorizationService(authorizationService)
+		return authorizationService
+	}
+
+	async function getVault(user: string) {
+		return (await container.getSecureServiceBroker({ clientCredentials: { user } }).getProxy<IVault>(vaultDescriptor))!
+	}
+
+	/** Gets the vault through an RPC connection, rather than the service object itself. */
+	async function getRemoteVault(user: string) {
+		const pipe = await container.getSecureServiceBroker({ clientCredentials: { user } }).getPipe(vaultDescriptor.moniker)
+		return vaultDescriptor.constructRpc<IVault>(pipe!)
+	}
+
+	it('runs methods the client is authorized to call', async function () {
+		profferAuthorizationService()
+		const guestVault = await getVault('guest')
+		expect(await guestVault.read()).toStrictEqual('secret')
+
+		const ownerVault = await getVault('owner')
+		await ownerVault.erase()
+		expect(vault!.erased).toBe(true)
+	})
+
+	it('rejects methods the client is not authorized to call', async function () {
+		profferAuthorizationService()
+		const guestVault = await getVault('guest')
+		await expect(guestVault.erase()).rejects.toBeInstanceOf(UnauthorizedAccessError)
+		expect(vault!.erased).toBe(false)
+	})
+
+	it('rejects every call without an authorization service', async function () {
+		const ownerVault = await getVault('owner')
+		await expect(ownerVault.read()).rejects.toBeInstanceOf(UnauthorizedAccessError)
+	})
+
+	it('honors cancellation', async function () {
+		profferAuthorizationService()
+		const guestVault = await getVault('guest')
+		await expect(guestVault.read(CancellationToken.CANCELLED)).rejects.toBeInstanceOf(CancellationToken.CancellationError)
+	})
+
+	it('rejects unauthorized RPC calls with an UnauthorizedAccessError', async function () {
+		profferAuthorizationService()
+		const guestVault = await getRemoteVault('guest')
+		expect(await guestVault.read()).toStrictEqual('secret')
+
+		const error = await guestVault.erase().catch(err => err)
+		expect(error).toBeInstanceOf(UnauthorizedAccessError)
+		expect(error.message).toContain(WellKnownProtectedOperations.clientIsOwner)
+		expect(vault!.erased).toBe(false)
+		guestVault.dispose()
+	})
+
+	it('keeps guarded methods exposed to RPC', async function () {
+		profferAuthorizationService()
+		const ownerVault: IVault & IDisposable = await getRemoteVault('owner')
+		await ownerVault.erase()
+		expect(vault!.erased).toBe(true)
+		ownerVault.dispose()
+	})
+
+	it('keeps guarded methods exposed whichever decorator is applied first', async function () {
+		profferAuthorizationService()
+		const pipe = await container.getSecureServiceBroker({ clientCredentials: { user: 'guest' } }).getPipe(safeDescriptor.moniker)
+		const safe = safeDescriptor.constructRpc<ISafe>(pipe!)
+		expect(await safe.open({ combination: '1234' })).toBe(true)
+		await expect(safe.reset()).rejects.toBeInstanceOf(RemoteMethodNotFoundError)
+		safe.dispose()
+	})
+
+	it('matches named arguments to the parameters of the guarded method', async function () {
+		profferAuthorizationService()
+		const pipe = await container.getSecureServiceBroker({ clientCredentials: { user: 'guest' } }).getPipe(safeDescriptor.moniker)
+		const safe = safeDescriptor.constructRpc<ISafe>(pipe!)
+		expect(await safe.open({ combination: '0000' })).toBe(false)
+		expect(await safe.open({ combination: '1234' })).toBe(true)
+		safe.dispose()
+	})
+
+	it('caches answers until authorization changes', async function () {
+		const authorizationService = profferAuthorizationService()
+		const guestVault = await getVault('guest')
+		await guestVault.read()
+		await guestVault.read()
+		expect(policyEvaluations).toStrictEqual(1)
+
+		authorizationService.setPolicy({ isOwner: () => false, getAuthorizedOperations: () => [] })
+		await expect(guestVault.read()).rejects.toBeInstanceOf(UnauthorizedAccessError)
+	})
+})
@@ -0,0 +1,261 @@
+import {
+	BrokeredServicesChangedArgs,
+	ClientCredentialsPolicy,
+	GlobalBrokeredServiceContainer,
+	IServiceBroker,
+	ServiceAudience,
+	ServiceBrokerAggregator,
+	ServiceRegistration,
+} from '../src'
+import { Calculator } from './testAssets/calculatorService'
+import { Descriptors } from './testAssets/Descriptors'
+import { ICalculatorService, ICallMeBackClient, ICallMeBackService } from './testAssets/interfaces'
+import { CallMeBackClient } from './testAssets/callMeBackClient'
+import { CallMeBackService } from './testAssets/callMeBackService'
+import { callBackDescriptor } from './testAssets/testUtilities'
+import immutable from 'immutable'
+
+describe('ServiceBrokerAggregator', function () {
+	let emptyContainer: GlobalBrokeredServiceContainer
+	let calcContainer: GlobalBrokeredServiceContainer
+	let emptyBroker: IServiceBroker
+	let calcBroker: IServiceBroker
+
+	beforeEach(function () {
+		emptyContainer = createContainer()
+		calcContainer = createContainer()
+		calcContainer.profferServiceFactory(Descriptors.calculator, () => new Calculator())
+		emptyBroker = emptyContainer.getFullAccessServiceBroker()
+		calcBroker = calcContainer.getFullAccessServiceBroker()
+	})
+
+	describe('sequential', function () {
+		it('returns the first service found', async function () {
+			const sb = ServiceBrokerAggregator.sequential([emptyBroker, calcBroker])
+			const calc = await sb.getProxy<ICalculatorService>(Descriptors.calculator)
+			expect(calc).toBeTruthy()
+			await expect(calc!.add(3, 2)).resolves.toStrictEqual(5)
+			calc!.dispose()
+		})
+
+		it('returns a pipe from the first broker that has one', async function () {
+			const sb = ServiceBrokerAggregator.sequential([emptyBroker, calcBroker])
+			const pipe = await sb.getPipe(Descriptors.calculator.moniker)
+			expect(pipe).toBeTruthy()
+			const calc = Descriptors.calculator.constructRpc<ICalculatorService>(pipe!)
+			await expect(calc.add(3, 2)).resolves.toStrictEqual(5)
+			calc.dispose()
+		})
+
+		it('stops querying after a service is found', async function () {
+			const getProxy = jest.spyOn(emptyBroker, 'getProxy')
+			const sb = ServiceBrokerAggregator.sequential([calcBroker, emptyBroker])
+			const calc = await sb.getProxy<ICalculatorService>(Descriptors.calculator)
+			expect(calc).toBeTruthy()
+			expect(getProxy).not.toHaveBeenCalled()
+			calc!.dispose()
+		})
+
+		it('returns null when no broker has the service', async function () {
+			const sb = ServiceBrokerAggregator.sequential([emptyBroker])
+			await expect(sb.getProxy(Descriptors.calculator)).resolves.toBeNull()
+			await expect(sb.getPipe(Descriptors.calculator.moniker)).resolves.toBeNull()
+		})
+
+		it('forwards availabilityChanged until disposed', function () {
+			const sb = ServiceBrokerAggregator.sequential([emptyBroker, calcBroker])
+			const events = collectEvents(sb)
+			emptyContainer.profferServiceFactory(Descriptors.calculator, () => new Calculator())
+			expect(events).toHaveLength(1)
+
+			sb.dispose()
+			calcContainer.profferServiceFactory(Descriptors.tree, () => ({}))
+			expect(events).toHaveLength(1)
+		})
+	})
+
+	describe('parallel', function () {
+		it('returns the only service found', async function () {
+			const sb = ServiceBrokerAggregator.parallel([emptyBroker, calcBroker])
+			const calc = await sb.getProxy<ICalculatorService>(Descriptors.calculator)
+			expect(calc).toBeTruthy()
+			await expect(calc!.add(3, 2)).resolves.toStrictEqual(5)
+			calc!.dispose()
+		})
+
+		it('returns null when no broker has the service', async function () {
+			const sb = ServiceBrokerAggregator.parallel([emptyBroker, emptyBroker])
+			await expect(sb.getProxy(Descriptors.calculator)).resolves.toBeNull()
+			await expect(sb.getPipe(Descriptors.calculator.moniker)).resolves.toBeNull()
+		})
+
+		it('throws and disposes all services when more than one is found', async function () {
+			const services: Calculator[] = []
+			emptyContainer.profferServiceFactory(Descriptors.calculator, () => {
+				const calc = new Calculator()
+				services.push(calc)
+				return calc
+			})
+			const sb = ServiceBrokerAggregator.parallel([emptyBroker, calcBroker])
+			await expect(sb.getProxy(Descriptors.calculator)).rejects.toThrow()
+			expect(services).toHaveLength(1)
+			expect(services[0].isDisposed).toBe(true)
+		})
+
+		it('ends all pipes when more than one is found', async function () {
+			const services: Calculator[] = []
+			for (const container of [emptyContainer, calcContainer]) {
+				container.profferServiceFactory(Descriptors.tree, () => {
+					const calc = new Calculator()
+					services.push(calc)
+					return calc
+				})
+			}
+			const sb = ServiceBrokerAggregator.parallel([emptyBroker, calcBroker])
+			await expect(sb.getPipe(Descriptors.tree.moniker)).rejects.toThrow()
+			expect(services).toHaveLength(2)
+			await Promise.all(services.map(calc => calc.disposed))
+		})
+
+		it('rethrows and disposes the services found when a broker fails', async function () {
+			const services: Calculator[] = []
+			emptyContainer.profferServiceFactory(Descriptors.tree, () => {
+				throw new Error('activation failed')
+			})
+			calcContainer.profferServiceFactory(Descriptors.tree, () => {
+				const calc = new Calculator()
+				services.push(calc)
+				return calc
+			})
+			const sb = ServiceBrokerAggregator.parallel([emptyBroker, calcBroker])
+			await expect(sb.getProxy(Descriptors.tree)).rejects.toThrow()
+			expect(services).toHaveLength(1)
+			expect(services[0].isDisposed).toBe(true)
+
+			await expect(sb.getPipe(Descriptors.tree.moniker)).rejects.toThrow()
+			expect(services).toHaveLength(2)
+			await services[1].disposed
+		})
+
+		it('forwards availabilityChanged', function () {
+			const sb = ServiceBrokerAggregator.parallel([emptyBroker, calcBroker])
+			const events = collectEvents(sb)
+			emptyContainer.profferServiceFactory(Descriptors.calculator, () => new Calculator())
+			calcContainer.profferServiceFactory(Descriptors.tree, () => ({}))
+			expect(events).toHaveLength(2)
+			sb.dispose()
+		})
+	})
+
+	describe('lazy', function () {
+		it('creates the inner broker once, on first use', async function () {
+			let factoryCount = 0
+			const sb = ServiceBrokerAggregator.lazy(() => {
+				factoryCount++
+				return Promise.resolve(calcBroker)
+			})
+			expect(factoryCount).toStrictEqual(0)
+
+			const calc = await sb.getProxy<ICalculatorService>(Descriptors.calculator)
+			expect(calc).toBeTruthy()
+			calc!.dispose()
+			const pipe = await sb.getPipe(Descriptors.calculator.moniker)
+			expect(pipe).toBeTruthy()
+			pipe!.end()
+			expect(factoryCount).toStrictEqual(1)
+		})
+
+		it('forwards availabilityChanged after the inner broker is created', async function () {
+			const sb = ServiceBrokerAggregator.lazy(() => emptyBroker)
+			const events = collectEvents(sb)
+			await sb.getProxy(Descriptors.calculator)
+			emptyContainer.profferServiceFactory(Descriptors.calculator, () => new Calculator())
+			expect(events).toHaveLength(1)
+
+			sb.dispose()
+			await Promise.resolve()
+			emptyContainer.profferServiceFactory(Descriptors.tree, () => ({}))
+			expect(events).toHaveLength(1)
+		})
+
+		it('rejects requests after disposal', async function () {
+			const sb = ServiceBrokerAggregator.lazy(() => calcBroker)
+			sb.dispose()
+			await expect(sb.getProxy(Descriptors.calculator)).rejects.toThrow()
+		})
+	})
+
+	describe('nonDisposable', function () {
+		it('forwards requests without exposing dispose', async function () {
+			const sb = ServiceBrokerAggregator.nonDisposable(calcBroker)
+			expect((sb as any).dispose).toBeUndefined()
+			const calc = await sb.getProxy<ICalculatorService>(Descriptors.calculator)
+			await expect(calc!.add(3, 2)).resolves.toStrictEqual(5)
+			calc!.dispose()
+		})
+
+		it('forwards availabilityChanged while it has listeners', function () {
+			const sb = ServiceBrokerAggregator.nonDisposable(emptyBroker)
+			let eventCount = 0
+			const listener = () => eventCount++
+			sb.on('availabilityChanged', listener)
+			emptyContainer.profferServiceFactory(Descriptors.calculator, () => new Calculator())
+			expect(eventCount).toStrictEqual(1)
+
+			sb.off('availabilityChanged', listener)
+			expect(emptyBroker.listenerCount('availabilityChanged')).toStrictEqual(0)
+		})
+	})
+
+	describe('forceMarshal', function () {
+		it('marshals locally proffered services', async function () {
+			const sb = ServiceBrokerAggregator.forceMarshal(calcBroker)
+			const calc = await sb.getProxy<ICalculatorService>(Descriptors.calculator)
+			expect(calc).toBeTruthy()
+			expect(calc).not.toBeInstanceOf(Calculator)
+			expect((calc as any)._jsonRpc).toBeTruthy()
+			await expect(calc!.add(3, 2)).resolves.toStrictEqual(5)
+			calc!.dispose()
+		})
+
+		it('serves client RPC targets', async function () {
+			calcContainer.register([{ moniker: callBackDescriptor.moniker, registration: new ServiceRegistration(ServiceAudience.local, false) }])
+			calcContainer.profferServiceFactory(callBackDescriptor, (mk, options) => new CallMeBackService(options.clientRpcTarget as ICallMeBackClient))
+			const sb = ServiceBrokerAggregator.forceMarshal(calcBroker)
+			const client = new CallMeBackClient()
+			const service = await sb.getProxy<ICallMeBackService>(callBackDescriptor, { clientRpcTarget: client })
+			await service!.callMeBack('Hello')
+			expect(client.lastMessage).toStrictEqual('Hello')
+			service!.dispose()
+		})
+
+		it('returns null for missing services', async function () {
+			const sb = ServiceBrokerAggregator.forceMarshal(emptyBroker)
+			await expect(sb.getProxy(Descriptors.calculator)).resolves.toBeNull()
+		})
+
+		it('forwards availabilityChanged', function () {
+			const sb = ServiceBrokerAggregator.forceMarshal(
+				emptyContainer.getLimitedAccessServiceBroker(ServiceAudience.local, immutable.Map(), ClientCredentialsPolicy.requestOverridesDefault)
+			)
+			const events = collectEvents(sb)
+			emptyContainer.profferServiceFactory(Descriptors.calculator, () => new Calculator())
+			expect(events).toHaveLength(1)
+		})
+	})
+})
+
+function createContainer() {
+	const container = new GlobalBrokeredServiceContainer()
+	container.register([
+		{ moniker: Descriptors.calculator.moniker, registration: new ServiceRegistration(ServiceAudience.local, false) },
+		{ moniker: Descriptors.tree.moniker, registration: new ServiceRegistration(ServiceAudience.local, false) },
+	])
+	return container
+}
+
+function collectEvents(sb: IServiceBroker) {
+	const events: BrokeredServicesChangedArgs[] = []
+	sb.on('availabilityChanged', args => events.push(args))
+	return events
+}
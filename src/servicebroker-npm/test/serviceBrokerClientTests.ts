@@ -0,0 +1,147 @@
+import CancellationToken from 'cancellationtoken'
+import {
+	BrokeredServicesChangedArgs,
+	GlobalBrokeredServiceContainer,
+	IDisposable,
+	IServiceBroker,
+	ServiceAudience,
+	ServiceBrokerClient,
+	ServiceMoniker,
+	ServiceRegistration,
+} from '../src'
+import { Calculator } from './testAssets/calculatorService'
+import { Descriptors } from './testAssets/Descriptors'
+import { ICalculatorService } from './testAssets/interfaces'
+
+describe('ServiceBrokerClient', function () {
+	let container: GlobalBrokeredServiceContainer
+	let calculators: Calculator[]
+	let calcProffer: IDisposable
+	let serviceBroker: IServiceBroker
+	let client: ServiceBrokerClient
+
+	beforeEach(function () {
+		container = new GlobalBrokeredServiceContainer()
+		container.register([
+			{ moniker: Descriptors.calculator.moniker, registration: new ServiceRegistration(ServiceAudience.local, false) },
+			{ moniker: Descriptors.tree.moniker, registration: new ServiceRegistration(ServiceAudience.local, false) },
+		])
+		calculators = []
+		calcProffer = profferCalculator()
+		serviceBroker = container.getFullAccessServiceBroker()
+		client = new ServiceBrokerClient(serviceBroker)
+	})
+
+	afterEach(function () {
+		client.dispose()
+	})
+
+	function profferCalculator() {
+		return container.profferServiceFactory(Descriptors.calculator, () => {
+			const calc = new Calculator()
+			calculators.push(calc)
+			return calc
+		})
+	}
+
+	it('shares a proxy across rentals', async function () {
+		const rental1 = await client.getProxy<ICalculatorService>(Descriptors.calculator)
+		const rental2 = await client.getProxy<ICalculatorService>(Descriptors.calculator)
+		expect(rental1.proxy).toBeTruthy()
+		expect(rental2.proxy).toBe(rental1.proxy)
+		await expect(rental1.proxy!.add(3, 2)).resolves.toStrictEqual(5)
+		rental1.dispose()
+		rental2.dispose()
+		expect(calculators).toHaveLength(1)
+		expect(calculators[0].isDisposed).toBe(false)
+	})
+
+	it('returns a rental with a null proxy for missing services', async function () {
+		const rental = await client.getProxy(Descriptors.tree)
+		expect(rental.proxy).toBeNull()
+		rental.dispose()
+	})
+
+	it('evicts and disposes of impacted proxies', async function () {
+		const rental = await client.getProxy<ICalculatorService>(Descriptors.calculator)
+		rental.dispose()
+
+		const events: BrokeredServicesChangedArgs[] = []
+		client.on('invalidated', args => events.push(args))
+		container.profferServiceFactory(Descriptors.tree, () => ({}))
+		expect(events).toHaveLength(1)
+		expect(events[0].impactedServices?.map(ServiceMoniker.toString)).toEqual([ServiceMoniker.toString(Descriptors.tree.moniker)])
+
+		// The tree service changed, but the calculator did not.
+		const sameRental = await client.getProxy<ICalculatorService>(Descriptors.calculator)
+		expect(sameRental.proxy).toBe(rental.proxy)
+		sameRental.dispose()
+
+		calcProffer.dispose()
+		expect(events).toHaveLength(2)
+		await calculators[0].disposed
+
+		profferCalculator()
+		const newRental = await client.getProxy<ICalculatorService>(Descriptors.calculator)
+		expect(newRental.proxy).not.toBe(rental.proxy)
+		expect(calculators).toHaveLength(2)
+		newRental.dispose()
+	})
+
+	it('evicts all proxies when other services are impacted', async function () {
+		const rental = await client.getProxy<ICalculatorService>(Descriptors.calculator)
+		rental.dispose()
+		serviceBroker.emit('availabilityChanged', { otherServicesImpacted: true })
+		await calculators[0].disposed
+	})
+
+	it('defers disposal of stale proxies until their rentals are released', async function () {
+		const rental1 = await client.getProxy<ICalculatorService>(Descriptors.calculator)
+		const rental2 = await client.getProxy<ICalculatorService>(Descriptors.calculator)
+		serviceBroker.emit('availabilityChanged', { otherServicesImpacted: true })
+		await Promise.resolve()
+		expect(calculators[0].isDisposed).toBe(false)
+
+		rental1.dispose()
+		rental1.dispose()
+		await Promise.resolve()
+		expect(calculators[0].isDisposed).toBe(false)
+
+		rental2.dispose()
+		await calculators[0].disposed
+	})
+
+	it('disposes of all proxies when disposed', async function () {
+		const rental = await client.getProxy<ICalculatorService>(Descriptors.calculator)
+		rental.dispose()
+		client.dispose()
+		await calculators[0].disposed
+		await expect(client.getProxy(Descriptors.calculator)).rejects.toThrow('Object is disposed')
+	})
+
+	it('retries after a failed request', async function () {
+		let failNext = true
+		const flakyBroker: IServiceBroker = Object.assign(Object.create(serviceBroker), {
+			getProxy<T extends object>(...args: Parameters<IServiceBroker['getProxy']>): Promise<T | null> {
+				if (failNext) {
+					failNext = false
+					return Promise.reject(new Error('Transient failure'))
+				}
+
+				return serviceBroker.getProxy<T>(...args)
+			},
+		})
+		client = new ServiceBrokerClient(flakyBroker)
+
+		await expect(client.getProxy<ICalculatorService>(Descriptors.calculator)).rejects.toThrow('Transient failure')
+		const rental = await client.getProxy<ICalculatorService>(Descriptors.calculator)
+		await expect(rental.proxy!.add(3, 2)).resolves.toStrictEqual(5)
+		rental.dispose()
+	})
+
+	it('honors cancellation', async function () {
+		await expect(client.getProxy(Descriptors.calculator, undefined, CancellationToken.CANCELLED)).rejects.toBeInstanceOf(
+			CancellationToken.CancellationError
+		)
+	})
+})
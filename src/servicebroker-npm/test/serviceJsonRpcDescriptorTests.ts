@@ -1,9 +1,16 @@
 import assert from 'assert'
 import CancellationToken from 'cancellationtoken'
 import { FullDuplexStream } from 'nerdbank-streams'
+import { PassThrough, Readable } from 'stream'
 import {
 	IDisposable,
+	IObservable,
+	IObserver,
+	IProgress,
 	IRemoteServiceBroker,
+	JsonRpcEnumerable,
+	JsonRpcEnumerableSettings,
+	RpcAsyncEnumerableParameters,
 	ServiceMoniker,
 	ServiceJsonRpcDescriptor,
 	ServiceBrokerClientMetadata,
@@ -11,7 +18,18 @@ import {
 	MessageDelimiters,
 	RemoteServiceConnections,
 	MarshaledObjectLifetime,
+	MarshaledObjectProxy,
 	RpcMarshalable,
+	RpcStream,
+	RpcStreamParameters,
+	Progress,
+	RpcProgressParameters,
+	Observable,
+	Observer,
+	CommonMethodNameTransforms,
+	RemoteMethodNotFoundError,
+	rpcMethod,
+	ServiceJsonRpcDescriptorOptions,
 } from '../src'
 import { Calculator } from './testAssets/calculatorService'
 import { IAppleTreeService, ApplePickedEventArgs, ICalculatorService, ICallMeBackClient, ICallMeBackService, IWaitToBeCanceled } from './testAssets/interfaces'
@@ -67,6 +85,41 @@ describe('ServiceJsonRpcDescriptor', function () {
 			rpc.dispose()
 		})
 
+		it('can call functions that are own properties of plain objects', async function () {
+			const nullPrototypeCalculator = Object.assign(Object.create(null), { add: (a: number, b: number) => a + b })
+			for (const target of [{ add: (a: number, b: number) => a + b }, nullPrototypeCalculator]) {
+				const pipes = FullDuplexStream.CreatePair()
+				calcDescriptorUtf8Http.constructRpc(target, pipes.first)
+				const rpc = calcDescriptorUtf8Http.constructRpc<ICalculatorService>(pipes.second)
+				assert.strictEqual(await rpc.add(3, 5), 8)
+				rpc.dispose()
+			}
+		})
+
+		it('cannot call functions that are own properties of class instances', async function () {
+			class CallbackCalculator {
+				constructor(private readonly disposed: () => void) {}
+
+				readonly subtract = (a: number, b: number) => a - b
+
+				add(a: number, b: number) {
+					return a + b
+				}
+			}
+
+			let disposed = false
+			const pipes = FullDuplexStream.CreatePair()
+			calcDescriptorUtf8Http.constructRpc(new CallbackCalculator(() => (disposed = true)), pipes.first)
+			const rpc = calcDescriptorUtf8Http.constructRpc<
+				ICalculatorService & { subtract(a: number, b: number): Promise<number>; disposed(): Promise<void> }
+			>(pipes.second)
+			assert.strictEqual(await rpc.add(3, 5), 8)
+			await assert.rejects(rpc.subtract(3, 5), RemoteMethodNotFoundError)
+			await assert.rejects(rpc.disposed(), RemoteMethodNotFoundError)
+			assert.strictEqual(disposed, false)
+			rpc.dispose()
+		})
+
 		it('can receive notifications', async function () {
 			const pipes = FullDuplexStream.CreatePair()
 			const server = new AppleTree()
@@ -157,6 +210,21 @@ describe('ServiceJsonRpcDescriptor', function () {
 		assert(!info2.equals(info3b), 'Should not be equal with different message delimiter')
 	})
 
+	it('Should consider method exposure, notifications and local proxies in logical equality', function () {
+		function create(options: ServiceJsonRpcDescriptorOptions) {
+			return new ServiceJsonRpcDescriptor(calcDescriptorUtf8Http.moniker, Formatters.Utf8, MessageDelimiters.HttpLikeHeaders, options)
+		}
+
+		assert(create({ exposedMethodNames: ['add', 'add5'] }).equals(create({ exposedMethodNames: ['add5', 'add'] })))
+		assert(!create({ exposedMethodNames: ['add'] }).equals(create({ exposedMethodNames: ['add5'] })))
+		assert(!create({ exposedMethodNames: ['add'] }).equals(create({})))
+		assert(!create({ strictMethodExposure: true }).equals(create({ strictMethodExposure: false })))
+		assert(create({ notificationMethodNames: ['log'] }).equals(create({ notificationMethodNames: ['log'] })))
+		assert(!create({ notificationMethodNames: ['log'] }).equals(create({ notificationMethodNames: [] })))
+		assert(create({ useLocalProxy: true }).equals(create({ useLocalProxy: true })))
+		assert(!create({ useLocalProxy: true }).equals(create({})))
+	})
+
 	describe('general marshalable objects', function () {
 		interface IPhone extends IDisposable {
 			placeCall(callerName: string): Promise<string>
@@ -170,12 +238,17 @@ describe('ServiceJsonRpcDescriptor', function () {
 			providePhoneWithCallLifetime(): IPhone | Promise<IPhone>
 			isThisYourPhone(phone: IPhone): IPhone | null | Promise<IPhone | null>
 			throwInside(phone: IPhone): Promise<void>
+			useSpeaker(phone: IPhone): Promise<string | null>
+		}
+
+		interface ISpeakerPhone {
+			enableSpeaker(): Promise<string>
 		}
 
 		class Server implements IServer {
 			public clientReadyForCall: Promise<void> | undefined
 			public deferredClientCallResult: Promise<string> | undefined
-			readonly serverPhone = new Phone('server', 'explicit')
+			serverPhone = new Phone('server', 'explicit')
 
 			async callMeBack(clientPhone: IPhone): Promise<string> {
 				const response = await clientPhone.placeCall('server')
@@ -216,6 +289,11 @@ describe('ServiceJsonRpcDescriptor', function () {
 			async throwInside() {
 				throw new Error('throwing as requested.')
 			}
+
+			async useSpeaker(phone: IPhone & MarshaledObjectProxy) {
+				const speakerPhone = MarshaledObjectProxy.asOptionalInterface<ISpeakerPhone>(phone, 1)
+				return speakerPhone ? await speakerPhone.enableSpeaker() : null
+			}
 		}
 
 		class Phone implements IPhone, RpcMarshalable {
@@ -227,7 +305,7 @@ describe('ServiceJsonRpcDescriptor', function () {
 				public readonly owner: string,
 				lifetime?: MarshaledObjectLifetime
 			) {
-				this._jsonRpcMarshalableLifetime = lifetime ?? 'explicit' // call lifetime isn't supported yet.
+				this._jsonRpcMarshalableLifetime = lifetime ?? 'explicit'
 				this.disposed = new Promise<void>(resolve => (this.disposalSource = resolve))
 			}
 
@@ -240,6 +318,15 @@ describe('ServiceJsonRpcDescriptor', function () {
 			}
 		}
 
+		class SpeakerPhone extends Phone implements ISpeakerPhone {
+			readonly _jsonRpcOptionalInterfaces = [1]
+			readonly _jsonRpcOptionalInterfaceMethods = { [1]: ['enableSpeaker'] }
+
+			enableSpeaker(): Promise<string> {
+				return Promise.resolve(`${this.owner} is on speaker.`)
+			}
+		}
+
 		let server: Server
 		let rpc: IServer & IDisposable
 
@@ -271,12 +358,22 @@ describe('ServiceJsonRpcDescriptor', function () {
 			await server.serverPhone.disposed
 		})
 
-		it('call lifetime is not yet supported', async function () {
+		it('call lifetime as arguments', async function () {
 			const phone = new Phone('client', 'call')
-			await assert.rejects(rpc.callMeBack(phone))
+			const response = await rpc.callMeBack(phone)
+			assert.strictEqual(response, 'Hi, client. This is server.')
 		})
 
-		it.skip('lifetime is scoped to the call', async function () {
+		it('call lifetime does not transfer ownership', async function () {
+			const phone = new Phone('client', 'call')
+			await assert.rejects(rpc.throwInside(phone))
+			let disposed = false
+			phone.disposed.then(() => (disposed = true))
+			await new Promise(resolve => setTimeout(resolve))
+			assert.strictEqual(disposed, false)
+		})
+
+		it('lifetime is scoped to the call', async function () {
 			const phone = new Phone('client', 'call')
 			server.clientReadyForCall = new Promise<void>(async (resolve, reject) => {
 				try {
@@ -305,6 +402,26 @@ describe('ServiceJsonRpcDescriptor', function () {
 			assert.strictEqual(response, 'Hi, client. This is server.')
 		})
 
+		it('optional interfaces', async function () {
+			assert.strictEqual(await rpc.useSpeaker(new SpeakerPhone('client')), 'client is on speaker.')
+			assert.strictEqual(await rpc.useSpeaker(new Phone('client')), null)
+		})
+
+		it('optional interfaces route calls by interface', async function () {
+			const serverPhone = (await rpc.providePhone()) as IPhone & MarshaledObjectProxy
+			assert.strictEqual(MarshaledObjectProxy.asOptionalInterface(serverPhone, 1), null)
+
+			server.serverPhone = new SpeakerPhone('server')
+			const speakerPhone = (await rpc.providePhone()) as IPhone & MarshaledObjectProxy
+			assert.deepStrictEqual(speakerPhone._jsonRpcOptionalInterfaces, [1])
+			const view = MarshaledObjectProxy.asOptionalInterface<ISpeakerPhone & IPhone>(speakerPhone, 1)!
+			assert.strictEqual(await view.enableSpeaker(), 'server is on speaker.')
+
+			// placeCall belongs to the base interface, so it is not reachable by its interface-qualified name.
+			await assert.rejects(view.placeCall('client'))
+			assert.strictEqual(await speakerPhone.placeCall('client'), 'Hi, server. This is client.')
+		})
+
 		it('can pass the proxy back and forth', async function () {
 			const serverPhone = await rpc.providePhone()
 			const result = await rpc.isThisYourPhone(serverPhone)
@@ -330,6 +447,637 @@ describe('ServiceJsonRpcDescriptor', function () {
 	})
 
 	describe('IObserver<T>', function () {})
+
+	describe('IObservable<T>', function () {
+		interface INumberSource {
+			getNumbers(): Promise<IObservable<number>>
+		}
+
+		class NumberSource implements INumberSource {
+			readonly observers = new Set<IObserver<number>>()
+			readonly numbers = new Observable<number>(observer => {
+				this.observers.add(observer)
+				return () => this.observers.delete(observer)
+			})
+
+			async getNumbers() {
+				return this.numbers
+			}
+		}
+
+		let source: NumberSource
+		let rpc: INumberSource & IDisposable
+
+		beforeEach(function () {
+			source = new NumberSource()
+			const descriptor = new ServiceJsonRpcDescriptor(ServiceMoniker.create('numbers'), Formatters.Utf8, MessageDelimiters.HttpLikeHeaders)
+			const pipes = FullDuplexStream.CreatePair()
+			descriptor.constructRpc(source, pipes.first)
+			rpc = descriptor.constructRpc<INumberSource>(pipes.second)
+		})
+
+		function observe(observable: IObservable<number>) {
+			const values: number[] = []
+			let subscription!: IDisposable | Promise<IDisposable>
+			const completed = new Promise<void>((resolve, reject) => {
+				subscription = observable.subscribe(
+					new Observer<number>(
+						v => values.push(v),
+						reason => (reason === null ? resolve() : reject(reason))
+					)
+				)
+			})
+			return { values, completed, subscription: Promise.resolve(subscription) }
+		}
+
+		it('delivers values and completion', async function () {
+			const { values, completed, subscription } = observe(await rpc.getNumbers())
+			await subscription
+			source.observers.forEach(o => o.onNext(1))
+			source.observers.forEach(o => o.onNext(2))
+			source.observers.forEach(o => o.onCompleted())
+			await completed
+			assert.deepStrictEqual(values, [1, 2])
+			assert.strictEqual(source.observers.size, 0)
+		})
+
+		it('delivers errors', async function () {
+			const { completed, subscription } = observe(await rpc.getNumbers())
+			await subscription
+			source.observers.forEach(o => o.onError('Requested failure.'))
+			await expect(completed).rejects.toBe('Requested failure.')
+			assert.strictEqual(source.observers.size, 0)
+		})
+
+		it('unsubscribes when the subscription is disposed', async function () {
+			const { values, subscription } = observe(await rpc.getNumbers())
+			const disposable = await subscription
+			assert.strictEqual(source.observers.size, 1)
+			disposable.dispose()
+
+			// Make another call to ensure the release notification has been processed.
+			await rpc.getNumbers()
+			assert.strictEqual(source.observers.size, 0)
+			assert.deepStrictEqual(values, [])
+		})
+	})
+
+	describe('AsyncIterable<T>', function () {
+		interface ISequenceService {
+			getSequence(length: number, settings?: JsonRpcEnumerableSettings): Promise<AsyncIterable<number>>
+			getFaultySequence(): Promise<AsyncIterable<number>>
+			sum(values: AsyncIterable<number>): Promise<number>
+			echo<T>(value: T): Promise<T>
+		}
+
+		class SequenceService implements ISequenceService, RpcAsyncEnumerableParameters {
+			readonly _jsonRpcAsyncEnumerableParameters = { sum: [0] }
+			readCount = 0
+			released?: Promise<void>
+			private notifyReleased?: () => void
+
+			async getSequence(length: number, settings?: JsonRpcEnumerableSettings) {
+				this.released = new Promise<void>(resolve => (this.notifyReleased = resolve))
+				return JsonRpcEnumerable.withSettings(this.generate(length), settings ?? {})
+			}
+
+			async getFaultySequence() {
+				return (async function* () {
+					yield 1
+					throw new Error('Requested failure.')
+				})()
+			}
+
+			async sum(values: AsyncIterable<number>) {
+				let sum = 0
+				for await (const value of values) {
+					sum += value
+				}
+
+				return sum
+			}
+
+			async echo<T>(value: T) {
+				return value
+			}
+
+			private async *generate(length: number) {
+				try {
+					for (let i = 1; i <= length; i++) {
+						this.readCount++
+						yield i
+					}
+				} finally {
+					this.notifyReleased!()
+				}
+			}
+		}
+
+		let service: SequenceService
+		let rpc: ISequenceService & IDisposable
+
+		beforeEach(function () {
+			service = new SequenceService()
+			const descriptor = new ServiceJsonRpcDescriptor(ServiceMoniker.create('sequence'), Formatters.Utf8, MessageDelimiters.HttpLikeHeaders)
+			const pipes = FullDuplexStream.CreatePair()
+			descriptor.constructRpc(service, pipes.first)
+			rpc = descriptor.constructRpc<ISequenceService>(pipes.second)
+		})
+
+		async function toArray<T>(iterable: AsyncIterable<T>) {
+			const values: T[] = []
+			for await (const value of iterable) {
+				values.push(value)
+			}
+
+			return values
+		}
+
+		it('as return value', async function () {
+			const sequence = JsonRpcEnumerable.accept<number>(rpc, await rpc.getSequence(5))!
+			assert.deepStrictEqual(await toArray(sequence), [1, 2, 3, 4, 5])
+			await service.released
+		})
+
+		it('as argument', async function () {
+			async function* generate() {
+				yield 1
+				yield 2
+				yield 3
+			}
+
+			assert.strictEqual(await rpc.sum(generate()), 6)
+		})
+
+		it('with batching', async function () {
+			const sequence = JsonRpcEnumerable.accept<number>(rpc, await rpc.getSequence(5, { minBatchSize: 2 }))!
+			assert.deepStrictEqual(await toArray(sequence), [1, 2, 3, 4, 5])
+		})
+
+		it('with prefetch', async function () {
+			const sequence = JsonRpcEnumerable.accept<number>(rpc, await rpc.getSequence(5, { prefetch: 2 }))!
+			assert.strictEqual(service.readCount, 2)
+			assert.deepStrictEqual(await toArray(sequence), [1, 2, 3, 4, 5])
+		})
+
+		it('with prefetch of the whole sequence', async function () {
+			const sequence = JsonRpcEnumerable.accept<number>(rpc, await rpc.getSequence(3, { prefetch: 5 }))!
+			await service.released
+			assert.deepStrictEqual(await toArray(sequence), [1, 2, 3])
+		})
+
+		it('releases the sequence when enumeration is abandoned', async function () {
+			const sequence = JsonRpcEnumerable.accept<number>(rpc, await rpc.getSequence(100))!
+			for await (const value of sequence) {
+				if (value === 2) {
+					break
+				}
+			}
+
+			await service.released
+			assert.ok(service.readCount < 100)
+		})
+
+		it('propagates errors', async function () {
+			const sequence = JsonRpcEnumerable.accept<number>(rpc, await rpc.getFaultySequence())!
+			await assert.rejects(toArray(sequence), /Requested failure/)
+		})
+
+		it('may only be enumerated once', async function () {
+			const sequence = JsonRpcEnumerable.accept<number>(rpc, await rpc.getSequence(1))!
+			await toArray(sequence)
+			await assert.rejects(toArray(sequence), /only be enumerated once/)
+		})
+
+		it('leaves values that are not expected to be enumerables alone', async function () {
+			assert.deepStrictEqual(await rpc.echo({ values: [1, 2] }), { values: [1, 2] })
+			assert.deepStrictEqual(await rpc.echo({ token: 1 }), { token: 1 })
+		})
+
+		it('accepts a null enumerable', async function () {
+			assert.strictEqual(JsonRpcEnumerable.accept<number>(rpc, await rpc.echo(null)), null)
+		})
+
+		it('accepts async iterables from services that are not behind a proxy', async function () {
+			const sequence = await service.getSequence(2)
+			assert.strictEqual(JsonRpcEnumerable.accept<number>(service, sequence), sequence)
+		})
+	})
+
+	describe('IProgress<T>', function () {
+		interface ICounter {
+			count(to: number, progress: IProgress<number> | null): Promise<void>
+		}
+
+		class Counter implements ICounter, RpcProgressParameters {
+			readonly _jsonRpcProgressParameters = { count: [1] }
+			lastProgress?: IProgress<number> | null
+
+			async count(to: number, progress: IProgress<number> | null) {
+				this.lastProgress = progress
+				for (let i = 1; i <= to; i++) {
+					progress?.report(i)
+				}
+			}
+		}
+
+		let counter: Counter
+		let rpc: ICounter & IDisposable
+
+		beforeEach(function () {
+			counter = new Counter()
+			const descriptor = new ServiceJsonRpcDescriptor(ServiceMoniker.create('counter'), Formatters.Utf8, MessageDelimiters.HttpLikeHeaders)
+			const pipes = FullDuplexStream.CreatePair()
+			descriptor.constructRpc(counter, pipes.first)
+			rpc = descriptor.constructRpc<ICounter>(pipes.second)
+		})
+
+		it('reports progress before the call completes', async function () {
+			const values: number[] = []
+			await rpc.count(3, new Progress<number>(v => values.push(v)))
+			assert.deepStrictEqual(values, [1, 2, 3])
+		})
+
+		it('accepts null', async function () {
+			await rpc.count(3, null)
+			assert.strictEqual(counter.lastProgress, null)
+		})
+
+		it('ignores progress reported after the call completes', async function () {
+			const values: number[] = []
+			await rpc.count(1, new Progress<number>(v => values.push(v)))
+			counter.lastProgress!.report(2)
+
+			// Make another call to ensure the late progress notification has been processed.
+			await rpc.count(0, null)
+			assert.deepStrictEqual(values, [1])
+		})
+	})
+
+	describe('named arguments', function () {
+		interface INamedCalculator {
+			add(args: { a: number; b: number }, cancellationToken?: CancellationToken): Promise<number>
+			add5(args: { a: number; b?: number }): Promise<number>
+			observeNumbers(args: { observer: IObserver<number>; length: number }): Promise<void>
+		}
+
+		const descriptor = new ServiceJsonRpcDescriptor(ServiceMoniker.create('Calculator'), Formatters.Utf8, MessageDelimiters.HttpLikeHeaders, {
+			parameterStructure: 'byName',
+		})
+
+		let rpc: INamedCalculator & IDisposable
+
+		beforeEach(function () {
+			const pipes = FullDuplexStream.CreatePair()
+			descriptor.constructRpc(new Calculator(), pipes.first)
+			rpc = descriptor.constructRpc<INamedCalculator>(pipes.second)
+		})
+
+		it('dispatches arguments by parameter name', async function () {
+			assert.strictEqual(await rpc.add({ b: 5, a: 3 }), 8)
+			assert.strictEqual(await rpc.add({ a: 3, b: 5 }, CancellationToken.CONTINUE), 8)
+		})
+
+		it('rejects unknown parameter names', async function () {
+			await assert.rejects(rpc.add5({ a: 3, b: 5 }), /no parameter named "b"/)
+		})
+
+		it('reads the parameter of an arrow function without parentheses', async function () {
+			const compute = (a: number, b: number) => a + b
+			const target: { increment(x: number): Promise<number> } = { increment: async x => x + compute(1, 0) }
+			const pipes = FullDuplexStream.CreatePair()
+			descriptor.constructRpc(target, pipes.first)
+			const client = descriptor.constructRpc<{ increment(args: { x: number }): Promise<number> }>(pipes.second)
+			assert.strictEqual(await client.increment({ x: 2 }), 3)
+			client.dispose()
+		})
+
+		it('uses declared parameter names', async function () {
+			const target = {
+				_jsonRpcParameterNames: { subtract: ['a', 'b'] },
+				subtract: async (...operands: number[]) => operands[0] - operands[1],
+			}
+			const pipes = FullDuplexStream.CreatePair()
+			descriptor.constructRpc(target, pipes.first)
+			const client = descriptor.constructRpc<{ subtract(args: { a: number; b: number }): Promise<number> }>(pipes.second)
+			assert.strictEqual(await client.subtract({ b: 1, a: 3 }), 2)
+			client.dispose()
+		})
+
+		it('reads parameter names past default values with separators in strings and brackets', async function () {
+			const target = {
+				join: async (a: string, b: string, sep = ', ', end = `) ${[')', ','].length}`, ignored = { a: ['(', 1] }) => a + sep + b + end,
+			}
+			const pipes = FullDuplexStream.CreatePair()
+			descriptor.constructRpc(target, pipes.first)
+			const client = descriptor.constructRpc<{ join(args: { a: string; b: string; sep: string; end: string }): Promise<string> }>(pipes.second)
+			assert.strictEqual(await client.join({ end: '!', sep: '+', b: 'y', a: 'x' }), 'x+y!')
+			client.dispose()
+		})
+
+		it('fails when parameter names cannot be determined', async function () {
+			const target = { subtract: async (...operands: number[]) => operands[0] - operands[1] }
+			const pipes = FullDuplexStream.CreatePair()
+			descriptor.constructRpc(target, pipes.first)
+			const client = descriptor.constructRpc<{ subtract(args: { a: number; b: number }): Promise<number> }>(pipes.second)
+			await assert.rejects(client.subtract({ b: 1, a: 3 }), /parameter names of the "subtract" method cannot be determined/)
+			client.dispose()
+		})
+
+		it('marshals objects', async function () {
+			const values: number[] = []
+			const completed = new Promise<void>(resolve => {
+				const observer = new Observer<number>(
+					value => values.push(value),
+					() => resolve()
+				)
+				rpc.observeNumbers({ observer, length: 2 })
+			})
+			await completed
+			assert.deepStrictEqual(values, [0, 1, 2])
+		})
+
+		it('propagates CancellationToken args', async function () {
+			const namedCancellationWaiter = new ServiceJsonRpcDescriptor(cancellationWaiter.moniker, Formatters.Utf8, MessageDelimiters.HttpLikeHeaders, {
+				parameterStructure: 'byName',
+			})
+			const pipes = FullDuplexStream.CreatePair()
+			const server = new WaitToBeCanceledService()
+			namedCancellationWaiter.constructRpc(server, pipes.first)
+			const rpc = namedCancellationWaiter.constructRpc<{ waitForCancellation(args: {}, cancellationToken: CancellationToken): Promise<void> }>(
+				pipes.second
+			)
+			const cts = CancellationToken.create()
+			const rpcCall = rpc.waitForCancellation({}, cts.token)
+			await server.methodReached
+			cts.cancel()
+			await rpcCall
+		})
+	})
+
+	describe('method name transforms', function () {
+		const dotnetTransform = CommonMethodNameTransforms.combine(CommonMethodNameTransforms.pascalCase, CommonMethodNameTransforms.asyncSuffix)
+		const plainDescriptor = new ServiceJsonRpcDescriptor(ServiceMoniker.create('Calculator'), Formatters.Utf8, MessageDelimiters.HttpLikeHeaders)
+		const transformingDescriptor = new ServiceJsonRpcDescriptor(ServiceMoniker.create('Calculator'), Formatters.Utf8, MessageDelimiters.HttpLikeHeaders, {
+			methodNameTransform: dotnetTransform,
+			eventNameTransform: CommonMethodNameTransforms.pascalCase,
+		})
+
+		it('transforms the names of methods invoked by proxies', async function () {
+			class DotNetCalculator {
+				// eslint-disable-next-line @typescript-eslint/naming-convention
+				AddAsync(a: number, b: number) {
+					return a + b
+				}
+			}
+
+			const pipes = FullDuplexStream.CreatePair()
+			plainDescriptor.constructRpc(new DotNetCalculator(), pipes.first)
+			const rpc = transformingDescriptor.constructRpc<ICalculatorService>(pipes.second)
+			assert.strictEqual(await rpc.add(3, 5), 8)
+		})
+
+		it('transforms the names of methods served by local targets', async function () {
+			const pipes = FullDuplexStream.CreatePair()
+			transformingDescriptor.constructRpc(new Calculator(), pipes.first)
+			interface IDotNetCalculator {
+				// eslint-disable-next-line @typescript-eslint/naming-convention
+				AddAsync(a: number, b: number): Promise<number>
+				// eslint-disable-next-line @typescript-eslint/naming-convention
+				Add(a: number, b: number): Promise<number>
+			}
+
+			const rpc = plainDescriptor.constructRpc<IDotNetCalculator>(pipes.second)
+			assert.strictEqual(await rpc.AddAsync(3, 5), 8)
+			assert.strictEqual(await rpc.Add(3, 5), 8)
+		})
+
+		it('transforms the names of events', async function () {
+			const pipes = FullDuplexStream.CreatePair()
+			transformingDescriptor.constructRpc(new AppleTree(), pipes.first)
+			const rpc = transformingDescriptor.constructRpc<IAppleTreeService>(pipes.second)
+			const pickedArgs = new Promise<ApplePickedEventArgs>(resolve => rpc.once('picked', args => resolve(args)))
+			await rpc.pick({ color: 'red', weight: 3 })
+			assert.strictEqual((await pickedArgs).color, 'red')
+		})
+	})
+
+	describe('method exposure', function () {
+		class Orchard extends AppleTree {
+			@rpcMethod
+			pick(args: ApplePickedEventArgs, cancellationToken?: CancellationToken): Promise<void> {
+				return super.pick(args, cancellationToken)
+			}
+		}
+
+		function connect<T extends object = IAppleTreeService>(server: object, options?: ServiceJsonRpcDescriptorOptions) {
+			const descriptor = new ServiceJsonRpcDescriptor(ServiceMoniker.create('AppleTree'), Formatters.Utf8, MessageDelimiters.HttpLikeHeaders, options)
+			const pipes = FullDuplexStream.CreatePair()
+			descriptor.constructRpc(server, pipes.first)
+			return appleTreeDescriptor.constructRpc<T>(pipes.second)
+		}
+
+		it('exposes only decorated methods', async function () {
+			const rpc = connect(new Orchard())
+			await rpc.pick({ color: 'red', weight: 3 })
+			await assert.rejects(rpc.grow(1, 2), RemoteMethodNotFoundError)
+		})
+
+		it('exposes listed methods', async function () {
+			const rpc = connect(new AppleTree(), { exposedMethodNames: ['grow'] })
+			await rpc.grow(1, 2)
+			await assert.rejects(rpc.pick({ color: 'red', weight: 3 }), RemoteMethodNotFoundError)
+		})
+
+		it('exposes decorated fields', async function () {
+			class ArrowOrchard extends AppleTree {
+				@rpcMethod
+				readonly plant = (seeds: number) => this.grow(seeds, 0)
+			}
+
+			const rpc = connect<IAppleTreeService & { plant(seeds: number): Promise<void> }>(new ArrowOrchard())
+			const grown = new Promise<number>(resolve => rpc.once('grown', seeds => resolve(seeds)))
+			await rpc.plant(3)
+			assert.strictEqual(await grown, 3)
+			await assert.rejects(rpc.grow(1, 2), RemoteMethodNotFoundError)
+		})
+
+		it('exposes all methods by default', async function () {
+			const rpc = connect(new AppleTree())
+			await rpc.grow(1, 2)
+		})
+
+		it('exposes no methods in strict mode unless they are exposed explicitly', async function () {
+			const rpc = connect(new AppleTree(), { strictMethodExposure: true })
+			await assert.rejects(rpc.grow(1, 2), RemoteMethodNotFoundError)
+		})
+	})
+
+	describe('notifications', function () {
+		interface ITelemetry {
+			log(event: string): Promise<void>
+			fail(): Promise<void>
+			failSynchronously(): Promise<void>
+			getEvents(): Promise<string[]>
+		}
+
+		class Telemetry implements ITelemetry {
+			readonly events: string[] = []
+
+			async log(event: string) {
+				this.events.push(event)
+			}
+
+			async fail() {
+				throw new Error('Failure that nobody observes.')
+			}
+
+			failSynchronously(): Promise<void> {
+				throw new Error('Synchronous failure that nobody observes.')
+			}
+
+			async getEvents() {
+				return this.events
+			}
+		}
+
+		let rpc: ITelemetry & IDisposable
+
+		beforeEach(function () {
+			const descriptor = new ServiceJsonRpcDescriptor(ServiceMoniker.create('telemetry'), Formatters.Utf8, MessageDelimiters.HttpLikeHeaders, {
+				notificationMethodNames: ['log', 'fail', 'failSynchronously'],
+			})
+			const pipes = FullDuplexStream.CreatePair()
+			descriptor.constructRpc(new Telemetry(), pipes.first)
+			rpc = descriptor.constructRpc<ITelemetry>(pipes.second)
+		})
+
+		it('invokes declared methods without waiting for a response', async function () {
+			assert.strictEqual(await rpc.log('a'), undefined)
+			await rpc.log('b')
+
+			// Requests are processed after the notifications that were sent before them.
+			assert.deepStrictEqual(await rpc.getEvents(), ['a', 'b'])
+		})
+
+		it('does not observe failures', async function () {
+			await rpc.fail()
+			await rpc.failSynchronously()
+			assert.deepStrictEqual(await rpc.getEvents(), [])
+		})
+
+		it('ignores named arguments that cannot be dispatched', async function () {
+			const descriptor = new ServiceJsonRpcDescriptor(ServiceMoniker.create('telemetry'), Formatters.Utf8, MessageDelimiters.HttpLikeHeaders, {
+				notificationMethodNames: ['log'],
+				parameterStructure: 'byName',
+			})
+			const pipes = FullDuplexStream.CreatePair()
+			descriptor.constructRpc(new Telemetry(), pipes.first)
+			const namedRpc = descriptor.constructRpc<{ log(args: { name: string }): Promise<void>; getEvents(): Promise<string[]> }>(pipes.second)
+			await namedRpc.log({ name: 'a' })
+			assert.deepStrictEqual(await namedRpc.getEvents(), [])
+			namedRpc.dispose()
+		})
+
+		it('rejects arguments that would never be released', async function () {
+			await assert.rejects(
+				(rpc as unknown as { log(progress: Progress<number>): Promise<void> }).log(new Progress<number>(() => {})),
+				/may not be passed to notifications/
+			)
+		})
+	})
+
+	describe('streams', function () {
+		interface IFileService {
+			upload(content: NodeJS.ReadableStream): Promise<string>
+			/** Returns the token for a stream, which the client turns back into a stream. */
+			download(content: string | null): Promise<number | null>
+			/** Not served by the service. */
+			save(content: NodeJS.ReadWriteStream, values?: AsyncIterable<number>): Promise<void>
+		}
+
+		class FileService implements RpcStreamParameters {
+			readonly _jsonRpcStreamParameters = { upload: [0] }
+
+			upload(content: NodeJS.ReadableStream) {
+				return readToEnd(content)
+			}
+
+			async download(content: string | null) {
+				return content === null ? null : Readable.from([Buffer.from(content)])
+			}
+		}
+
+		async function readToEnd(stream: NodeJS.ReadableStream) {
+			const chunks: Buffer[] = []
+			for await (const chunk of stream) {
+				chunks.push(Buffer.from(chunk))
+			}
+
+			return Buffer.concat(chunks).toString()
+		}
+
+		function connect(descriptor: ServiceJsonRpcDescriptor) {
+			const pipes = FullDuplexStream.CreatePair()
+			descriptor.constructRpc(new FileService(), pipes.first)
+			return descriptor.constructRpc<IFileService>(pipes.second)
+		}
+
+		const multiplexingDescriptor = new ServiceJsonRpcDescriptor(
+			ServiceMoniker.create('files'),
+			Formatters.MessagePack,
+			MessageDelimiters.BigEndianInt32LengthHeader,
+			{ protocolMajorVersion: 3 }
+		)
+
+		it('as arguments', async function () {
+			const rpc = connect(multiplexingDescriptor)
+			const content = await rpc.upload(Readable.from([Buffer.from('Hello, '), Buffer.from('world!')]))
+			assert.strictEqual(content, 'Hello, world!')
+			rpc.dispose()
+		})
+
+		it('as return values', async function () {
+			const rpc = connect(multiplexingDescriptor)
+			const stream = RpcStream.accept(rpc, await rpc.download('Hello, world!'))
+			assert.strictEqual(await readToEnd(stream!), 'Hello, world!')
+			rpc.dispose()
+		})
+
+		it('null return values', async function () {
+			const rpc = connect(multiplexingDescriptor)
+			assert.strictEqual(RpcStream.accept(rpc, await rpc.download(null)), null)
+			rpc.dispose()
+		})
+
+		it('close their channels when the call fails before they are accepted', async function () {
+			const rpc = connect(multiplexingDescriptor)
+			const content = new PassThrough()
+			const closed = new Promise<void>(resolve => content.once('finish', () => resolve()))
+			await assert.rejects(rpc.save(content), RemoteMethodNotFoundError)
+			await closed
+			rpc.dispose()
+		})
+
+		it('close their channels when other arguments fail to be sent', async function () {
+			const rpc = connect(multiplexingDescriptor)
+			async function* failing(): AsyncGenerator<number> {
+				throw new Error('Unavailable')
+			}
+
+			const content = new PassThrough()
+			const closed = new Promise<void>(resolve => content.once('finish', () => resolve()))
+			await assert.rejects(rpc.save(content, JsonRpcEnumerable.withSettings(failing(), { prefetch: 1 })), /Unavailable/)
+			await closed
+			rpc.dispose()
+		})
+
+		it('require a multiplexing stream', async function () {
+			const rpc = connect(new ServiceJsonRpcDescriptor(ServiceMoniker.create('files'), Formatters.Utf8, MessageDelimiters.HttpLikeHeaders))
+			await assert.rejects(rpc.upload(Readable.from([Buffer.from('Hello')])), /MultiplexingStream/)
+			rpc.dispose()
+		})
+	})
 })
 
 describe('Various formatters and delimiters', function () {
@@ -8,18 +8,25 @@ export class MockAuthService extends (EventEmitter as new () => AuthorizationSer
 	public authorizationChanged: EventEmitter = new EventEmitter()
 	public isDisposed: boolean = false
 	public authChecked: boolean = false
+	public getCredentialsCount: number = 0
+	public checkAuthorizationCount: number = 0
+
+	/** The highest trust level that is authorized, or `undefined` to authorize every operation. */
+	public maxTrustLevel?: number
 
 	public constructor(private clientCredentials: { [key: string]: string }) {
 		super()
 	}
 
 	public getCredentials(cancellationToken: CancellationToken): Promise<{ [key: string]: string }> {
+		this.getCredentialsCount++
 		return Promise.resolve(this.clientCredentials)
 	}
 
 	public checkAuthorization(operation: ProtectedOperation, cancellationToken: CancellationToken): Promise<boolean> {
 		this.authChecked = true
-		return Promise.resolve(true)
+		this.checkAuthorizationCount++
+		return Promise.resolve(this.maxTrustLevel === undefined || (operation.requiredTrustLevel ?? 0) <= this.maxTrustLevel)
 	}
 
 	public updateCredentials(clientCredentials: { [key: string]: string }) {